@@ -0,0 +1,45 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+import { AGENT_SEARCH_DIRS, ResolvedAgent, findAgentFile, listAgents, loadAgentFile, resolveAgent } from '../runtime/agent';
+
+/**
+ * Finds, parses and resolves an agent, printing the problem and exiting on failure.
+ */
+export async function loadResolvedAgentOrExit(agentName: string): Promise<ResolvedAgent> {
+    const agentPath = await findAgentFile(process.cwd(), agentName);
+    if (!agentPath) {
+        console.error(chalk.red(`[ERROR] Agent definition not found: ${agentName} (looked in ${AGENT_SEARCH_DIRS.join(', ')})`));
+        console.error(chalk.yellow(`Available agents:`));
+        (await listAgents(process.cwd())).forEach(name => console.error(`- ${name}`));
+        process.exit(1);
+    }
+
+    try {
+        return await resolveAgent(process.cwd(), await loadAgentFile(agentName, agentPath));
+    } catch (e: any) {
+        console.error(chalk.red(`[ERROR] ${e.message}`));
+        process.exit(1);
+    }
+}
+
+/**
+ * Prints an agent definition. With `--resolved`, prints the effective definition
+ * after inheritance: merged frontmatter and the concatenated bodies.
+ */
+export async function agentShowCommand(agentName: string, options: { resolved?: boolean }) {
+    const agent = await loadResolvedAgentOrExit(agentName);
+    const relative = (p: string) => path.relative(process.cwd(), p);
+
+    if (!options.resolved) {
+        console.error(chalk.gray(`# ${relative(agent.path)}`));
+        process.stdout.write(await fs.readFile(agent.path, 'utf-8'));
+        return;
+    }
+
+    // Chain on stderr so stdout is a valid agent file
+    console.error(chalk.gray(`# Resolved from: ${agent.chain.map(a => relative(a.path)).join(' -> ')}`));
+    const frontmatter = yaml.dump(agent.config, { lineWidth: -1 });
+    process.stdout.write(`---\n${frontmatter}---\n\n${agent.body}\n`);
+}
@@ -0,0 +1,82 @@
+import chalk from 'chalk';
+import { COMMANDS_DIR, CommandDefinition, listCommands, loadCommand, renderCommand, validateCommand } from '../runtime/commands';
+import { RunOptions, runCommand } from './run';
+
+interface CommandOptions extends Pick<RunOptions, 'dryRun' | 'isolation' | 'task' | 'mockScript' | 'nonInteractive'> {
+    list?: boolean;
+    agent?: string;
+    print?: boolean;
+}
+
+function usage(command: CommandDefinition): string {
+    const hint = command.config['argument-hint']
+        || (command.config.arguments || []).map(a => a.required ? `<${a.name}>` : `[${a.name}]`).join(' ');
+    return hint ? `${command.name} ${hint}` : command.name;
+}
+
+async function listCommandsAction() {
+    const commands = await listCommands(process.cwd());
+    if (commands.length === 0) {
+        console.log(chalk.yellow(`[INFO] No commands found in ${COMMANDS_DIR}.`));
+        return;
+    }
+
+    console.log(chalk.bold('\nAvailable Commands:\n'));
+    for (const command of commands) {
+        try {
+            validateCommand(command);
+        } catch (e: any) {
+            console.log(chalk.yellow(`[WARN] ${e.message}`));
+            continue;
+        }
+        const agent = command.config.agent ? chalk.gray(` -> ${command.config.agent}`) : chalk.yellow(' (no agent)');
+        console.log(`${chalk.cyan(usage(command))}${agent}`);
+        if (command.config.description) console.log(`    ${command.config.description}`);
+    }
+    console.log('');
+}
+
+/**
+ * Renders a command template from docs/ai/commands and runs it as the goal of the
+ * command's agent (or `--agent`).
+ */
+export async function commandCommand(name: string | undefined, args: string[], options: CommandOptions) {
+    if (options.list || !name) {
+        await listCommandsAction();
+        return;
+    }
+
+    let goal: string;
+    let agent: string | undefined;
+    try {
+        const command = await loadCommand(process.cwd(), name);
+        goal = renderCommand(command, args);
+        agent = options.agent || command.config.agent;
+    } catch (e: any) {
+        console.error(chalk.red(`[ERROR] ${e.message}`));
+        console.log(chalk.yellow('Run "contextuate command --list" to see available commands.'));
+        process.exit(1);
+    }
+
+    if (options.print) {
+        console.log(goal);
+        return;
+    }
+    if (!agent) {
+        console.error(chalk.red(`[ERROR] Command ${name} doesn't declare an agent. Add "agent:" to its frontmatter or pass --agent <name>.`));
+        process.exit(1);
+    }
+    if (!goal.trim()) {
+        console.error(chalk.red(`[ERROR] Command ${name} rendered an empty goal.`));
+        process.exit(1);
+    }
+
+    await runCommand(agent, {
+        goal,
+        isolation: options.isolation,
+        dryRun: options.dryRun,
+        task: options.task,
+        mockScript: options.mockScript,
+        nonInteractive: options.nonInteractive,
+    });
+}
@@ -2,7 +2,11 @@ import chalk from 'chalk';
 import fs from 'fs-extra';
 import path from 'path';
 import inquirer from 'inquirer';
-import { generateFileTree, estimateTokens } from '../utils/tokens';
+import { generateFileTree } from '../utils/tokens';
+import { TokenCounter, resolveTokenizer } from '../utils/tokenizer';
+import { buildAgentContext } from '../runtime/context';
+import { loadResolvedAgentOrExit } from './agent';
+import { collectTaskFiles, parseTokenBudget, printContextReport } from './run';
 
 export async function addContextCommand() {
     console.log(chalk.blue('[INFO] Interactive Context Creator'));
@@ -56,7 +60,9 @@ export async function addContextCommand() {
 
 async function appendToContext(contextFile: string, targetFile: string) {
     const content = await fs.readFile(targetFile, 'utf-8');
-    const tokens = estimateTokens(content);
+    const counter = await new TokenCounter(resolveTokenizer(), process.cwd()).load();
+    const tokens = counter.countCached(content);
+    await counter.save();
 
     console.log(`Analyzing ${targetFile}... (~${tokens} tokens)`);
 
@@ -83,3 +89,39 @@ ${content}
     await fs.appendFile(contextFile, docEntry);
     console.log(chalk.green(`[OK] Added ${targetFile} to context.md`));
 }
+
+interface ContextBuildOptions {
+    out?: string;
+    task?: string;
+    maxTokens?: string;
+}
+
+/**
+ * Prints (or writes) the exact system prompt `run` would send for an agent.
+ */
+export async function contextBuildCommand(agentName: string, options: ContextBuildOptions) {
+    const agent = await loadResolvedAgentOrExit(agentName);
+
+    // Progress goes to stderr unless writing to a file, so stdout is exactly the payload
+    const log = options.out ? console.log : console.error;
+    const taskFiles = options.task ? await collectTaskFiles(options.task, log) : [];
+
+    const context = await buildAgentContext({
+        projectRoot: process.cwd(),
+        runtimeCwd: process.cwd(),
+        agent,
+        taskFiles,
+        maxTokens: parseTokenBudget(options.maxTokens),
+    });
+
+    printContextReport(context, log);
+
+    if (options.out) {
+        await fs.ensureDir(path.dirname(path.resolve(options.out)));
+        await fs.writeFile(options.out, context.system + '\n');
+        console.log(chalk.green(`[OK] Wrote context payload to: ${options.out}`));
+    } else {
+        console.error('');
+        process.stdout.write(context.system + '\n');
+    }
+}
@@ -54,6 +54,7 @@ export async function createAgentCommand(name: string, options: { description?:
 name: "${agentName}"
 description: "${agentDescription}"
 version: "1.0.0"
+inherits: "base"
 capabilities:
   - "read_files"
   - "search_files"
@@ -1,7 +1,8 @@
 import chalk from 'chalk';
 import fs from 'fs-extra';
 import path from 'path';
-import { generateFileTree, estimateTokens } from '../utils/tokens';
+import { generateFileTree } from '../utils/tokens';
+import { resolveTokenizer } from '../utils/tokenizer';
 
 export async function indexCommand(options: { depth?: string, force?: boolean }) {
     console.log(chalk.blue('[INFO] Generating project index...'));
@@ -16,7 +17,8 @@ export async function indexCommand(options: { depth?: string, force?: boolean })
 
     try {
         const tree = await generateFileTree(projectRoot, depth);
-        const tokens = estimateTokens(tree);
+        const tokenizer = resolveTokenizer();
+        const tokens = tokenizer.count(tree);
 
         const content = `# Project Structure Index
 <!-- 
@@ -39,7 +41,7 @@ ${tree}
         await fs.writeFile(destFile, content);
 
         console.log(chalk.green(`[OK] Generated index at: ${destFile}`));
-        console.log(`     Size: ${chalk.cyan(tokens + ' tokens')} (approx)`);
+        console.log(`     Size: ${chalk.cyan(tokens + ' tokens')} (${tokenizer.name})`);
         console.log(`     Use this file to give agents a high-level map of the codebase.`);
 
     } catch (e: any) {
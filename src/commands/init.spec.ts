@@ -0,0 +1,39 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { RUNTIME_DIR, ensureGitignored } from './init';
+
+describe('ensureGitignored', () => {
+    let root: string;
+    let file: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-init-'));
+        file = path.join(root, '.gitignore');
+    });
+
+    afterEach(async () => {
+        await fs.remove(root);
+    });
+
+    it('creates the .gitignore when there is none', async () => {
+        expect(await ensureGitignored(RUNTIME_DIR, file)).toBe(true);
+        expect(await fs.readFile(file, 'utf-8')).toBe('# Contextuate - runtime state (sessions, worktrees, cache)\n.contextuate/\n');
+    });
+
+    it('appends after existing entries, once', async () => {
+        await fs.writeFile(file, 'node_modules/');
+
+        expect(await ensureGitignored(RUNTIME_DIR, file)).toBe(true);
+        expect(await ensureGitignored(RUNTIME_DIR, file)).toBe(false);
+        expect(await fs.readFile(file, 'utf-8')).toBe('node_modules/\n\n# Contextuate - runtime state (sessions, worktrees, cache)\n.contextuate/\n');
+    });
+
+    it('leaves an existing entry alone, with or without slashes', async () => {
+        await fs.writeFile(file, 'dist\n/.contextuate\n');
+
+        expect(await ensureGitignored(RUNTIME_DIR, file)).toBe(false);
+        expect(await fs.readFile(file, 'utf-8')).toBe('dist\n/.contextuate\n');
+    });
+});
@@ -15,6 +15,25 @@ const PLATFORMS = [
     { id: 'windsurf', name: 'Windsurf IDE', src: 'templates/platforms/windsurf.md', dest: '.windsurf/rules/project.md', ensureDir: '.windsurf/rules' },
 ];
 
+// Runtime state written by `contextuate run` (sessions, worktrees, token cache)
+export const RUNTIME_DIR = '.contextuate/';
+
+/**
+ * Appends `entry` to a .gitignore, creating the file if needed. Returns false when
+ * the file already lists it (with or without a leading or trailing slash).
+ */
+export async function ensureGitignored(entry: string, file = '.gitignore'): Promise<boolean> {
+    const bare = (line: string) => line.trim().replace(/^\//, '').replace(/\/$/, '');
+    const content = await fs.pathExists(file) ? await fs.readFile(file, 'utf-8') : '';
+    if (content.split('\n').some(line => bare(line) === bare(entry))) {
+        return false;
+    }
+
+    const separator = content === '' ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+    await fs.writeFile(file, `${content}${separator}# Contextuate - runtime state (sessions, worktrees, cache)\n${entry}\n`);
+    return true;
+}
+
 // Fuzzy match platform names
 function fuzzyMatchPlatform(input: string): string | null {
     const normalized = input.toLowerCase().trim();
@@ -440,6 +459,14 @@ export async function initCommand(platformArgs: string[] | { force?: boolean, ag
             console.log('');
         }
 
+        // 7. Keep runtime state out of git
+        console.log(chalk.blue('[INFO] Updating .gitignore...'));
+        if (await ensureGitignored(RUNTIME_DIR)) {
+            console.log(chalk.green(`[OK] Added ${RUNTIME_DIR} to .gitignore`));
+        } else {
+            console.log(chalk.yellow(`[WARN] Skipped (exists): ${RUNTIME_DIR} in .gitignore`));
+        }
+        console.log('');
 
         console.log(chalk.green('╔════════════════════════════════════════╗'));
         console.log(chalk.green('║     Installation Complete!             ║'));
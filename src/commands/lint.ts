@@ -0,0 +1,40 @@
+import chalk from 'chalk';
+import { ProjectLinter, LintIssue } from '../runtime/lint';
+
+export async function lintCommand() {
+    console.log(chalk.blue('[INFO] Linting agents, tools and docs/ai links...'));
+
+    const issues = await new ProjectLinter(process.cwd()).lint();
+
+    if (issues.length === 0) {
+        console.log(chalk.green('[OK] No problems found.'));
+        return;
+    }
+
+    // Group by file, keeping the order issues were found in
+    const byFile = new Map<string, LintIssue[]>();
+    for (const issue of issues) {
+        if (!byFile.has(issue.file)) byFile.set(issue.file, []);
+        byFile.get(issue.file)!.push(issue);
+    }
+
+    for (const [file, fileIssues] of byFile) {
+        console.log(chalk.bold(`\n${file}`));
+        for (const issue of fileIssues) {
+            const label = issue.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+            const line = chalk.gray(String(issue.line || '').padEnd(5));
+            console.log(`  ${line} ${label} ${issue.message}`);
+        }
+    }
+
+    const errors = issues.filter(i => i.severity === 'error').length;
+    const warnings = issues.length - errors;
+    const summary = `\n${errors} error(s), ${warnings} warning(s)`;
+
+    if (errors > 0) {
+        console.log(chalk.red(summary));
+        process.exitCode = 1;
+    } else {
+        console.log(chalk.yellow(summary));
+    }
+}
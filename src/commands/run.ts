@@ -2,77 +2,205 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import fs from 'fs-extra';
 import path from 'path';
-import matter from 'gray-matter';
-
-interface AgentConfig {
-    name?: string;
-    description?: string;
-    version?: string;
-    capabilities?: string[];
-    context?: {
-        files?: string[];
-        directories?: string[];
-    };
-    env?: string[];
-    provider?: { type: string; model: string; };
-}
-
 import { GitManager } from '../utils/git';
-import { estimateTokens } from '../utils/tokens';
 
 // ... imports
-import { LLMDriver } from '../runtime/driver';
+import { RunLimits } from '../runtime/driver';
+import { loadResolvedAgentOrExit } from './agent';
+import { AssembledContext, buildAgentContext } from '../runtime/context';
+import { DEFAULT_PROVIDER, RunOutcome, executeRun, newSessionId, resolveLimits } from '../runtime/runner';
+import { ChangeSummary, readSession, sessionPath, writtenFiles } from '../runtime/session';
+import { SCOPE_FILE, appendTaskLog, listTaskInputFiles, listTaskLogs, listTaskPhases, taskDir } from '../runtime/tasks';
+import { formatDuration } from '../utils/duration';
+
+export interface RunOptions {
+    dryRun?: boolean;
+    isolation?: string;
+    goal?: string;
+    task?: string;
+    replay?: string;
+    mockScript?: string;
+    maxTurns?: string;
+    maxInputTokens?: string;
+    maxOutputTokens?: string;
+    timeout?: string;
+    maxConcurrency?: string;
+    maxContextTokens?: string;
+    exportPatch?: string | boolean;
+    nonInteractive?: boolean;
+}
 
-export async function runCommand(agentName: string, options: { dryRun?: boolean, isolation?: string, goal?: string, task?: string }) {
-    console.log(chalk.blue(`[INFO] Launching Agent: ${agentName}`));
+/**
+ * Parses a `--max-context-tokens` style flag, exiting on anything but a positive integer.
+ */
+export function parseTokenBudget(value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const n = parseInt(value, 10);
+    if (!Number.isInteger(n) || n <= 0 || String(n) !== value.trim()) {
+        console.error(chalk.red(`[ERROR] Token budget must be a positive integer (got "${value}")`));
+        process.exit(1);
+    }
+    return n;
+}
 
-    if (options.goal) {
-        console.log(chalk.bold('Goal: ') + options.goal);
+/**
+ * Returns the context files for `--task <name>`: the project scope, the phase files,
+ * everything in `files/` and the latest log. Exits if the task doesn't exist.
+ */
+export async function collectTaskFiles(task: string, log: (message: string) => void = console.log): Promise<string[]> {
+    const taskPath = taskDir(process.cwd(), task);
+    if (!fs.existsSync(taskPath)) {
+        console.error(chalk.red(`[ERROR] Task not found at: ${taskPath}`));
+        process.exit(1);
     }
 
-    // 1. Locate the agent file
-    const agentPath = path.join(process.cwd(), 'docs/ai/agents', `${agentName}.md`);
+    const files: string[] = [];
 
-    if (!fs.existsSync(agentPath)) {
-        console.error(chalk.red(`[ERROR] Agent definition not found at: ${agentPath}`));
-        console.log(chalk.yellow(`Available agents:`));
-        try {
-            const files = await fs.readdir(path.join(process.cwd(), 'docs/ai/agents'));
-            files.forEach(f => {
-                if (f.endsWith('.md')) {
-                    console.log(`- ${f.replace('.md', '')}`);
-                }
-            });
-        } catch (e) {
-            console.log(chalk.red('Could not list agents directory.'));
-        }
-        process.exit(1);
+    const scopeFile = path.join(taskPath, SCOPE_FILE);
+    if (fs.existsSync(scopeFile)) {
+        log(`- Scope: ${chalk.green('FOUND')} (${scopeFile})`);
+        files.push(scopeFile);
+    } else {
+        console.warn(chalk.yellow(`[WARN] Task scope not found: ${scopeFile}`));
     }
 
-    // 2. Parse the definition
-    let config: AgentConfig;
+    for (const phase of await listTaskPhases(taskPath)) {
+        log(`- Phase ${phase.number}: ${chalk.green('FOUND')} (${phase.file})`);
+        files.push(path.join(taskPath, phase.file));
+    }
+
+    const inputs = await listTaskInputFiles(taskPath);
+    if (inputs.length > 0) {
+        log(`- Files: ${chalk.green(`${inputs.length} FOUND`)} (${path.join(taskPath, 'files')})`);
+        files.push(...inputs.map(f => path.join(taskPath, f)));
+    }
+
+    // Logs are numbered, so the latest is the highest number rather than the last name
+    const latestLog = (await listTaskLogs(taskPath)).pop();
+    if (latestLog) {
+        const logPath = path.join(taskPath, latestLog.file);
+        log(`- Latest Log: ${chalk.green('FOUND')} (${logPath})`);
+        files.push(logPath);
+    }
+
+    return files;
+}
+
+/**
+ * Appends a log entry to the task for a finished run: the goal, the outcome, the
+ * files changed and the session id, so the next session can pick up from it.
+ */
+async function logTaskSession(task: string, agentName: string, goal: string, outcome: RunOutcome, branch?: string) {
+    const firstLine = goal.split('\n')[0].trim();
+    const changed = outcome.changes
+        ? outcome.changes.files.map(f => f.path)
+        : writtenFiles(await readSession(outcome.transcript).catch(() => []));
+
+    const blockers: string[] = [];
+    if (outcome.status === 'error') blockers.push(`Run failed: ${outcome.error}`);
+    if (outcome.status === 'stopped') blockers.push(`Stopped early: ${outcome.limit} limit reached after ${outcome.turns} turns`);
+
     try {
-        const fileContent = await fs.readFile(agentPath, 'utf-8');
-        const parsed = matter(fileContent);
-        config = parsed.data as AgentConfig;
+        const file = await appendTaskLog(taskDir(process.cwd(), task), {
+            summary: firstLine.length > 60 ? firstLine.slice(0, 60) : firstLine,
+            platform: `Contextuate (${agentName})`,
+            session: outcome.sessionId,
+            completed: [
+                `Goal: ${firstLine}`,
+                `Outcome: ${outcome.status} after ${outcome.turns} turn(s)`,
+                `Transcript: ${path.relative(process.cwd(), outcome.transcript)}`,
+            ],
+            files: changed,
+            blockers,
+            next: branch ? [`Review and merge ${branch}`] : [],
+            notes: outcome.output,
+        });
+        console.log(chalk.green(`[OK] Task log written: ${path.relative(process.cwd(), file)}`));
+    } catch (e: any) {
+        console.warn(chalk.yellow(`[WARN] Could not write the task log: ${e.message}`));
+    }
+}
 
-        // Add default provider config if missing
-        if (!config.provider) {
-            config.provider = { type: 'mock', model: 'test' };
+/**
+ * Prints each assembled context section with its token count, noting truncation.
+ */
+export function printContextReport(context: AssembledContext, log: (message: string) => void = console.log) {
+    for (const section of context.sections) {
+        const label = section.kind === 'file' || section.kind === 'directory' ? section.source : `${section.kind}: ${section.source}`;
+        if (section.omitted) {
+            log(`- ${label}: ${chalk.red('OMITTED')} (${section.originalTokens} tokens, over budget)`);
+        } else if (section.truncated) {
+            log(`- ${label}: ${chalk.yellow('TRUNCATED')} (${section.tokens} of ${section.originalTokens} tokens)`);
+        } else {
+            log(`- ${label}: ${chalk.green('FOUND')} (${section.tokens} tokens)`);
         }
+    }
+    context.missing.forEach(file => log(`- ${file}: ${chalk.red('MISSING')}`));
 
-        console.log(chalk.green(`[OK] Loaded agent definition`));
-    } catch (error) {
-        console.error(chalk.red('[ERROR] Failed to parse agent definition:'), error);
-        process.exit(1);
+    log(chalk.cyan(`\nTotal Context Size: ~${context.totalTokens} tokens (budget ${context.budget}, ${context.tokenizer})`));
+    if (context.totalTokens > 32000) {
+        log(chalk.yellow(`[WARN] Context size is quite large (>32k). Consider removing files.`));
+    }
+}
+
+function printChangeSummary(changes: ChangeSummary, branch?: string) {
+    if (changes.error) {
+        console.warn(chalk.yellow(`[WARN] Could not commit the agent's changes: ${changes.error}`));
+        return;
+    }
+    if (changes.files.length === 0) {
+        console.log(chalk.blue('[INFO] The agent made no changes.'));
+        return;
+    }
+
+    const committed = changes.commit ? `Committed ${changes.commit.slice(0, 7)} on ${branch}` : `Changes on ${branch}`;
+    console.log(chalk.green(`[OK] ${committed}: ${changes.files.length} file(s), +${changes.added} -${changes.removed}`));
+    changes.files.forEach(f => console.log(`  ${f.binary ? chalk.gray('binary') : `${chalk.green(`+${f.added}`)} ${chalk.red(`-${f.removed}`)}`}  ${f.path}`));
+    if (changes.patch) {
+        console.log(chalk.green(`[OK] Patch written to: ${changes.patch}`));
+    }
+}
+
+export async function runCommand(agentName: string, options: RunOptions) {
+    console.log(chalk.blue(`[INFO] Launching Agent: ${agentName}`));
+
+    if (options.goal) {
+        console.log(chalk.bold('Goal: ') + options.goal);
     }
 
+    // 1. Locate, parse and resolve the agent definition
+    const agent = await loadResolvedAgentOrExit(agentName);
+    const config = agent.config;
+
+    // 2. Add default provider config if missing
+    if (!config.provider) {
+        config.provider = { ...DEFAULT_PROVIDER };
+    }
+
+    // --mock-script swaps the provider for a scripted mock
+    if (options.mockScript) {
+        config.provider = { ...config.provider, type: 'mock', script: options.mockScript };
+    }
+
+    // --replay swaps the provider for a playback of a recorded session
+    if (options.replay) {
+        config.provider = { ...config.provider, type: 'replay', session: options.replay };
+    }
+
+    console.log(chalk.green(`[OK] Loaded agent definition`));
+
     // 3. Prepare Runtime
     const git = new GitManager(process.cwd());
     const isGit = await git.isGitRepo();
 
     let runtimeCwd = process.cwd();
-    let sessionId = Date.now().toString();
+    let sessionId = newSessionId();
+    let branch: string | undefined;
+
+    if (options.exportPatch && options.isolation !== 'worktree') {
+        console.error(chalk.red('[ERROR] --export-patch requires --isolation worktree.'));
+        process.exit(1);
+    }
 
     if (options.isolation === 'worktree') {
         if (!isGit) {
@@ -83,6 +211,7 @@ export async function runCommand(agentName: string, options: { dryRun?: boolean,
         console.log(chalk.blue('[INFO] Setting up Git Worktree...'));
         try {
             runtimeCwd = await git.createWorktree(config.name || agentName, sessionId);
+            branch = git.worktreeBranch(config.name || agentName, sessionId);
             console.log(chalk.green(`[OK] Worktree created at: ${runtimeCwd}`));
         } catch (e: any) {
             console.error(chalk.red(`[ERROR] Failed to create worktree: ${e.message}`));
@@ -103,6 +232,9 @@ export async function runCommand(agentName: string, options: { dryRun?: boolean,
     console.log(chalk.bold('\nAgent Configuration:'));
     console.log(`Name: ${config.name || agentName}`);
     console.log(`Description: ${config.description || 'No description provided'}`);
+    if (agent.chain.length > 1) {
+        console.log(`Inherits: ${agent.chain.slice(0, -1).map(a => a.name).reverse().join(' <- ')}`);
+    }
 
     if (config.capabilities && config.capabilities.length > 0) {
         console.log(chalk.bold('\nCapabilities:'));
@@ -124,122 +256,97 @@ export async function runCommand(agentName: string, options: { dryRun?: boolean,
         }
     }
 
-    const extraContext: string[] = [];
+    let limits: RunLimits;
+    try {
+        limits = resolveLimits(config, options);
+    } catch (e: any) {
+        console.error(chalk.red(`[ERROR] Invalid limits: ${e.message}`));
+        process.exit(1);
+    }
+
+    if (Object.values(limits).some(v => v !== undefined)) {
+        console.log(chalk.bold('\nLimits:'));
+        if (limits.maxTurns) console.log(`- Max turns: ${limits.maxTurns}`);
+        if (limits.maxInputTokens) console.log(`- Max input tokens: ${limits.maxInputTokens}`);
+        if (limits.maxOutputTokens) console.log(`- Max output tokens: ${limits.maxOutputTokens}`);
+        if (limits.timeoutMs) console.log(`- Timeout: ${formatDuration(limits.timeoutMs)}`);
+        if (limits.maxConcurrency) console.log(`- Max concurrency: ${limits.maxConcurrency}`);
+    }
 
+    let taskFiles: string[] = [];
     if (options.task) {
         console.log(chalk.bold('\nTask Context:'));
-        const taskPath = path.join(process.cwd(), 'docs/ai/tasks', options.task);
-        if (!fs.existsSync(taskPath)) {
-            console.error(chalk.red(`[ERROR] Task not found at: ${taskPath}`));
-            process.exit(1);
-        }
-
-        const scopeFile = path.join(taskPath, '00-project-scope.md');
-        if (fs.existsSync(scopeFile)) {
-            console.log(`- Scope: ${chalk.green('FOUND')} (${scopeFile})`);
-            config.context = config.context || {};
-            config.context.files = config.context.files || [];
-            config.context.files.push(scopeFile);
-            extraContext.push(scopeFile);
-        } else {
-            console.warn(chalk.yellow(`[WARN] Task scope not found: ${scopeFile}`));
-        }
-
-        // Find latest log
-        const logsDir = path.join(taskPath, 'logs');
-        if (fs.existsSync(logsDir)) {
-            const logFiles = await fs.readdir(logsDir);
-            const latestLog = logFiles.sort().reverse()[0];
-            if (latestLog) {
-                const logPath = path.join(logsDir, latestLog);
-                console.log(`- Latest Log: ${chalk.green('FOUND')} (${logPath})`);
-                config.context = config.context || {};
-                config.context.files = config.context.files || [];
-                config.context.files.push(logPath);
-                extraContext.push(logPath);
-            }
-        }
+        taskFiles = await collectTaskFiles(options.task);
     }
 
-    // Inject Project Structure Index if available
-    const indexFile = path.join(process.cwd(), 'docs/ai/project-structure.md');
-    if (await fs.pathExists(indexFile)) {
-        console.log(`- Project Index: ${chalk.green('FOUND')} (${indexFile})`);
-        config.context = config.context || {};
-        config.context.files = config.context.files || [];
-        // Avoid duplicates
-        if (!config.context.files.includes(indexFile)) {
-            config.context.files.unshift(indexFile); // Add to beginning
-        }
-    }
+    const context = await buildAgentContext({
+        projectRoot: process.cwd(),
+        runtimeCwd,
+        agent,
+        taskFiles,
+        maxTokens: parseTokenBudget(options.maxContextTokens),
+    });
 
-    if (config.context) {
-        console.log('\nLoading Context:');
-        // In a real implementation we would copy these files or process them
-        // For now we just verify they exist from the perspective of the runtimeCwd
-        const files = config.context.files || [];
-        let totalTokens = 0;
+    console.log(chalk.bold('\nLoading Context:'));
+    printContextReport(context);
 
-        for (const file of files) {
-            // Check if absolute path (from task loading) or relative
-            const checkPath = path.isAbsolute(file) ? file : path.join(runtimeCwd, file);
-            const exists = await fs.pathExists(checkPath);
-            const status = exists ? chalk.green('FOUND') : chalk.red('MISSING');
+    if (!options.dryRun) {
+        // Here we would spawn the actual agent process or loop
+        console.log(chalk.magenta('\n*** AGENT EXECUTION STARTED ***'));
 
-            let fileTokens = 0;
-            if (exists) {
-                const content = await fs.readFile(checkPath, 'utf-8');
-                fileTokens = estimateTokens(content);
-                totalTokens += fileTokens;
-            }
+        const outcome = await executeRun({
+            projectRoot: process.cwd(),
+            agent,
+            sessionId,
+            goal: options.goal || 'No explicit goal provided.',
+            runtimeCwd,
+            isolation: options.isolation || 'none',
+            branch,
+            context,
+            limits,
+            interactive: !options.nonInteractive && !!process.stdin.isTTY,
+            exportPatch: options.exportPatch
+                ? path.resolve(typeof options.exportPatch === 'string' ? options.exportPatch : sessionPath(process.cwd(), sessionId).replace(/\.jsonl$/, '.patch'))
+                : undefined,
+        });
 
-            console.log(`- ${file}: ${status} (${fileTokens} tokens)`);
+        if (outcome.status === 'error') {
+            console.error(chalk.red(`[ERROR] Execution failed: ${outcome.error}`));
+            process.exitCode = 1;
         }
-
-        console.log(chalk.cyan(`\nTotal Context Size: ~${totalTokens} tokens`));
-        if (totalTokens > 32000) {
-            console.log(chalk.yellow(`[WARN] Context size is quite large (>32k). Consider removing files.`));
+        if (outcome.status === 'stopped') {
+            console.warn(chalk.yellow(`[WARN] Agent stopped early: ${outcome.limit} limit reached after ${outcome.turns} turns.`));
+            process.exitCode = 1;
         }
-
-        if (config.context.directories) {
-            config.context.directories.forEach(d => console.log(`- [DIR]  ${d}`));
+        if (outcome.divergences.length > 0) {
+            console.error(chalk.red(`[ERROR] Replay diverged from the recording in ${outcome.divergences.length} place(s):`));
+            outcome.divergences.forEach(d => console.error(chalk.red(`- ${d}`)));
+            process.exitCode = 1;
         }
-    }
 
-    if (!options.dryRun) {
-        // Here we would spawn the actual agent process or loop
-        console.log(chalk.magenta('\n*** AGENT EXECUTION STARTED ***'));
+        console.log(chalk.magenta('*** AGENT EXECUTION FINISHED ***'));
+        console.log(chalk.gray(`Session transcript: ${path.relative(process.cwd(), outcome.transcript)}`));
 
-        try {
-            const driver = new LLMDriver(
-                {
-                    provider: (config as any).provider?.type || 'mock',
-                    model: (config as any).provider?.model || 'test',
-                    capabilities: config.capabilities || []
-                },
-                options.goal || 'No explicit goal provided.',
-                runtimeCwd,
-                (config.context?.files || []).map(f => path.isAbsolute(f) ? f : path.join(runtimeCwd, f))
-            );
-            await driver.run();
-        } catch (e: any) {
-            console.error(chalk.red(`[ERROR] Execution failed: ${e.message}`));
+        // If worktree, ask to commit or verify
+        if (outcome.changes) {
+            printChangeSummary(outcome.changes, branch);
         }
 
-        console.log(chalk.magenta('*** AGENT EXECUTION FINISHED ***'));
+        if (options.task) {
+            await logTaskSession(options.task, config.name || agentName, options.goal || 'No explicit goal provided.', outcome, branch);
+        }
 
-        // If worktree, ask to commit or verify
         if (options.isolation === 'worktree') {
-            // For prototype, we just mention it
-            console.log(chalk.yellow(`\n[INFO] Worktree is preserved at: ${runtimeCwd}`));
-            console.log(`Inspect changes there, then delete with: git worktree remove "${runtimeCwd}"`);
+            const id = path.basename(runtimeCwd);
+            console.log(chalk.yellow(`\n[INFO] Worktree is preserved at: ${runtimeCwd} (branch ${branch})`));
+            console.log(`Review with "contextuate worktrees diff ${id}", then "contextuate worktrees merge ${id}" or "contextuate worktrees discard ${id}".`);
         }
     } else {
         // Cleanup worktree immediately in dry-run to avoid litter
         if (options.isolation === 'worktree') {
             console.log(chalk.blue('\n[INFO] Cleaning up dry-run worktree...'));
-            await git.removeWorktree(runtimeCwd);
-            console.log(chalk.green('[OK] Worktree removed.'));
+            await git.removeWorktree(runtimeCwd, true);
+            console.log(chalk.green('[OK] Worktree and branch removed.'));
         }
     }
 }
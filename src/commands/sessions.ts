@@ -0,0 +1,184 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import { listSessions, readSession, sessionPath, summarizeSession, RecordedEvent } from '../runtime/session';
+
+const statusColor = (status: string) =>
+    status === 'completed' ? chalk.green(status) : status === 'running' ? chalk.yellow(status) : chalk.red(status);
+
+async function loadSessionOrExit(sessionId: string): Promise<RecordedEvent[]> {
+    const filePath = sessionPath(process.cwd(), sessionId);
+    if (!await fs.pathExists(filePath)) {
+        console.error(chalk.red(`[ERROR] Session not found: ${sessionId}`));
+        console.log(chalk.yellow('Run "contextuate sessions list" to see recorded sessions.'));
+        process.exit(1);
+    }
+    return readSession(filePath);
+}
+
+export async function sessionsListCommand() {
+    const sessions = await listSessions(process.cwd());
+
+    if (sessions.length === 0) {
+        console.log(chalk.yellow('[INFO] No sessions recorded yet. Sessions are written by "contextuate run".'));
+        return;
+    }
+
+    console.log(chalk.bold('\nRecorded Sessions:\n'));
+    for (const s of sessions) {
+        const goal = (s.goal || '').length > 60 ? s.goal!.slice(0, 57) + '...' : (s.goal || '');
+        const parent = s.parentId ? chalk.gray(`  [spawned by ${s.parentId}]`) : '';
+        console.log(`${chalk.cyan(s.id)}  ${s.startedAt || '-'}  ${chalk.bold(s.agent || '?')}  ${statusColor(s.status)}  (${s.turns} turns)${parent}`);
+        if (goal) {
+            console.log(chalk.gray(`    ${goal}`));
+        }
+    }
+    console.log('');
+}
+
+export async function sessionsShowCommand(sessionId: string) {
+    const events = await loadSessionOrExit(sessionId);
+
+    for (const event of events) {
+        const time = chalk.gray(event.timestamp);
+        switch (event.type) {
+            case 'session_start':
+                console.log(`${time} ${chalk.bold('START')} ${event.agent} (${event.provider}/${event.model})`);
+                console.log(`  Goal: ${event.goal}`);
+                console.log(`  Working Directory: ${event.cwd} [isolation: ${event.isolation}]`);
+                if (event.branch) console.log(`  Branch: ${event.branch}`);
+                if (event.parent_session_id) console.log(`  Spawned by: ${event.parent_session_id}`);
+                break;
+            case 'context':
+                console.log(`${time} ${chalk.bold('CONTEXT')} ~${event.total_tokens} tokens`);
+                event.files.forEach(f => console.log(`  - ${f.path} (${f.tokens} tokens)`));
+                break;
+            case 'model_turn':
+                console.log(`${time} ${chalk.yellow(`TURN ${event.turn}`)}`);
+                if (event.text) console.log(`  ${event.text.split('\n').join('\n  ')}`);
+                event.tool_calls.forEach(c => console.log(chalk.cyan(`  -> ${c.name} ${JSON.stringify(c.input)}`)));
+                break;
+            case 'tool_result':
+                console.log(`${time} ${event.is_error ? chalk.red('TOOL ERROR') : chalk.green('TOOL RESULT')} ${event.name}`);
+                console.log(`  ${event.content.split('\n').join('\n  ')}`);
+                break;
+            case 'divergence':
+                console.log(`${time} ${chalk.red('DIVERGENCE')} ${event.message}`);
+                break;
+            case 'permission':
+                console.log(`${time} ${event.allowed ? chalk.green('ALLOWED') : chalk.red('DENIED')} ${event.tool} (${event.decision}, by ${event.by})`);
+                console.log(`  ${event.reason}`);
+                break;
+            case 'hook': {
+                const ok = event.exit_code === 0 && !event.timed_out;
+                const result = event.timed_out ? 'timed out' : `exit ${event.exit_code}`;
+                console.log(`${time} ${ok ? chalk.gray('HOOK') : chalk.red('HOOK')} ${event.event}${event.tool ? ` (${event.tool})` : ''}: ${event.hook} ${ok ? chalk.gray(result) : chalk.red(result)}`);
+                if (!ok && event.output) console.log(`  ${event.output}`);
+                break;
+            }
+            case 'spawn':
+                console.log(`${time} ${chalk.magenta('SPAWN')} ${event.agent} -> session ${event.child_session_id} ${statusColor(event.status)}${event.branch ? ` (${event.branch})` : ''}`);
+                console.log(`  Goal: ${event.goal}`);
+                break;
+            case 'changes':
+                console.log(`${time} ${chalk.bold('CHANGES')} ${event.commit ? `commit ${event.commit.slice(0, 7)}, ` : ''}${event.files.length} file(s), +${event.added} -${event.removed}`);
+                event.files.forEach(f => console.log(`  - ${f.path}${f.binary ? ' (binary)' : ` (+${f.added} -${f.removed})`}`));
+                if (event.patch) console.log(`  Patch: ${event.patch}`);
+                if (event.error) console.log(chalk.red(`  ${event.error}`));
+                break;
+            case 'session_end':
+                console.log(`${time} ${chalk.bold('END')} ${statusColor(event.status)} after ${event.turns} turns${event.limit ? ` (${event.limit} limit)` : ''}`);
+                if (event.usage) console.log(`  Tokens: ${event.usage.input_tokens} in / ${event.usage.output_tokens} out`);
+                if (event.error) console.log(chalk.red(`  ${event.error}`));
+                break;
+        }
+    }
+}
+
+/**
+ * Renders a transcript as a markdown report for review or attaching to a PR.
+ */
+export function sessionToMarkdown(sessionId: string, events: RecordedEvent[]): string {
+    const summary = summarizeSession(sessionId, '', events);
+    const lines: string[] = [`# Session ${sessionId}`, ''];
+
+    for (const event of events) {
+        switch (event.type) {
+            case 'session_start':
+                lines.push(
+                    `- **Agent:** ${event.agent}`,
+                    `- **Provider:** ${event.provider} (${event.model})`,
+                    `- **Started:** ${event.timestamp}`,
+                    `- **Working Directory:** \`${event.cwd}\` (isolation: ${event.isolation})`,
+                    ...(event.branch ? [`- **Branch:** \`${event.branch}\``] : []),
+                    ...(event.parent_session_id ? [`- **Spawned by:** session ${event.parent_session_id}`] : []),
+                    `- **Status:** ${summary.status}`,
+                    '',
+                    '## Goal',
+                    '',
+                    event.goal,
+                    ''
+                );
+                break;
+            case 'context':
+                lines.push(`## Context (~${event.total_tokens} tokens)`, '');
+                event.files.forEach(f => lines.push(`- \`${f.path}\` (${f.tokens} tokens)`));
+                lines.push('');
+                break;
+            case 'model_turn':
+                lines.push(`## Turn ${event.turn}`, '');
+                if (event.text) lines.push(event.text, '');
+                event.tool_calls.forEach(c => lines.push(`**Tool call:** \`${c.name}\``, '', '```json', JSON.stringify(c.input, null, 2), '```', ''));
+                break;
+            case 'tool_result':
+                lines.push(`**${event.is_error ? 'Tool error' : 'Tool result'}:** \`${event.name}\``, '', '```', event.content, '```', '');
+                break;
+            case 'divergence':
+                lines.push(`> **Divergence:** ${event.message}`, '');
+                break;
+            case 'permission':
+                lines.push(`**Permission:** \`${event.tool}\` ${event.allowed ? 'allowed' : 'denied'} (${event.decision}, by ${event.by}): ${event.reason}`, '');
+                break;
+            case 'hook':
+                lines.push(`**Hook:** \`${event.hook}\` (${event.event}${event.tool ? `, \`${event.tool}\`` : ''}) ${event.timed_out ? 'timed out' : `exited ${event.exit_code}`}`, '');
+                if (event.output && (event.exit_code !== 0 || event.timed_out)) lines.push('```', event.output, '```', '');
+                break;
+            case 'spawn':
+                lines.push(`**Sub-agent:** \`${event.agent}\` in session ${event.child_session_id} (${event.status}${event.branch ? `, branch \`${event.branch}\`` : ''})`, '', `> ${event.goal}`, '');
+                break;
+            case 'changes':
+                lines.push(`## Changes (+${event.added} -${event.removed})`, '');
+                if (event.commit) lines.push(`- **Commit:** \`${event.commit}\``);
+                if (event.patch) lines.push(`- **Patch:** \`${event.patch}\``);
+                if (event.error) lines.push(`- **Error:** ${event.error}`);
+                event.files.forEach(f => lines.push(`- \`${f.path}\`${f.binary ? ' (binary)' : ` (+${f.added} -${f.removed})`}`));
+                lines.push('');
+                break;
+            case 'session_end':
+                lines.push('## Outcome', '', `- **Status:** ${event.status}`, `- **Turns:** ${event.turns}`, `- **Finished:** ${event.timestamp}`);
+                if (event.limit) lines.push(`- **Limit reached:** ${event.limit}`);
+                if (event.usage) lines.push(`- **Tokens:** ${event.usage.input_tokens} in / ${event.usage.output_tokens} out`);
+                if (event.error) lines.push(`- **Error:** ${event.error}`);
+                if (event.output) lines.push('', event.output);
+                lines.push('');
+                break;
+        }
+    }
+
+    return lines.join('\n');
+}
+
+export async function sessionsExportCommand(sessionId: string, options: { markdown?: boolean, out?: string }) {
+    const events = await loadSessionOrExit(sessionId);
+    const output = options.markdown
+        ? sessionToMarkdown(sessionId, events)
+        : JSON.stringify(events, null, 2) + '\n';
+
+    if (options.out) {
+        await fs.ensureDir(path.dirname(path.resolve(options.out)));
+        await fs.writeFile(options.out, output);
+        console.log(chalk.green(`[OK] Exported session to: ${options.out}`));
+    } else {
+        process.stdout.write(output);
+    }
+}
@@ -0,0 +1,150 @@
+import chalk from 'chalk';
+import path from 'path';
+import {
+    ARCHIVE_DIR, TaskError, TaskSummary, appendTaskLog, closeTask, createTask, listTasks, requireTask, summarizeTask,
+} from '../runtime/tasks';
+
+const relative = (p: string) => path.relative(process.cwd(), p) || '.';
+
+function exitOnTaskError(e: any): never {
+    if (!(e instanceof TaskError)) throw e;
+    console.error(chalk.red(`[ERROR] ${e.message}`));
+    process.exit(1);
+}
+
+function statusColor(status = 'unknown', width = 0): string {
+    const text = status.padEnd(width);
+    switch (status.toLowerCase()) {
+        case 'complete': return chalk.green(text);
+        case 'blocked': return chalk.red(text);
+        case 'in progress':
+        case 'active': return chalk.yellow(text);
+        default: return chalk.gray(text);
+    }
+}
+
+function lastLog(task: TaskSummary): string {
+    const last = task.logs[task.logs.length - 1];
+    if (!last) return chalk.gray('no logs');
+    return `last log ${last.date || path.basename(last.file)}`;
+}
+
+export async function taskNewCommand(name: string, options: { title?: string; objective?: string; phases?: string[] }) {
+    try {
+        const dir = await createTask(process.cwd(), name, options);
+        console.log(chalk.green(`[OK] Created task: ${relative(dir)}`));
+        console.log(chalk.gray('  00-project-scope.md, files/, logs/01 (task created)'));
+        (options.phases || []).forEach((p, i) => console.log(chalk.gray(`  Phase ${i + 1}: ${p}`)));
+        console.log(chalk.yellow(`\nFill in the objective and requirements in ${relative(path.join(dir, '00-project-scope.md'))}.`));
+    } catch (e: any) {
+        exitOnTaskError(e);
+    }
+}
+
+export async function taskLogCommand(name: string, summary: string, options: {
+    platform?: string; done?: string[]; decision?: string[]; blocker?: string[]; next?: string[];
+}) {
+    try {
+        const dir = await requireTask(process.cwd(), name);
+        const file = await appendTaskLog(dir, {
+            summary,
+            platform: options.platform,
+            completed: options.done,
+            decisions: options.decision,
+            blockers: options.blocker,
+            next: options.next,
+        });
+        console.log(chalk.green(`[OK] Logged: ${relative(file)}`));
+    } catch (e: any) {
+        exitOnTaskError(e);
+    }
+}
+
+export async function taskListCommand(options: { all?: boolean }) {
+    const tasks = await listTasks(process.cwd(), options.all);
+    if (tasks.length === 0) {
+        console.log(chalk.yellow('[INFO] No tasks found. Create one with: contextuate task new <name>'));
+        return;
+    }
+
+    console.log(chalk.bold('\nTasks:\n'));
+    for (const task of tasks) {
+        const archived = task.archived ? chalk.gray(' (archived)') : '';
+        console.log(`${chalk.cyan(task.name.padEnd(30))} ${statusColor(task.status, 12)} ${lastLog(task)}${archived}`);
+    }
+    console.log('');
+}
+
+function printTaskStatus(task: TaskSummary, detailed: boolean) {
+    console.log(`${chalk.bold(task.title)} ${chalk.gray(`(${task.name})`)}  ${statusColor(task.status)}`);
+    console.log(`  Updated: ${task.updated || chalk.gray('unknown')}, ${task.logs.length} log(s), ${lastLog(task)}`);
+
+    if (task.phases.length > 0) {
+        console.log('  Phases:');
+        task.phases.forEach(p => console.log(`    ${p.number}. ${p.title}  ${statusColor(p.status)}`));
+    }
+
+    if (task.openItems.length === 0) {
+        console.log(`  Open items: ${chalk.green('none')}`);
+    } else if (detailed) {
+        console.log(`  Open items (${task.openItems.length}):`);
+        task.openItems.forEach(i => console.log(`    - [ ] ${i.text} ${chalk.gray(`(${i.file})`)}`));
+    } else {
+        console.log(`  Open items: ${chalk.yellow(String(task.openItems.length))}`);
+    }
+}
+
+/**
+ * Status of one task, with its open items listed, or a summary of every task.
+ */
+export async function taskStatusCommand(name?: string) {
+    if (name) {
+        try {
+            console.log('');
+            printTaskStatus(await summarizeTask(await requireTask(process.cwd(), name)), true);
+            console.log('');
+        } catch (e: any) {
+            exitOnTaskError(e);
+        }
+        return;
+    }
+
+    const tasks = await listTasks(process.cwd());
+    if (tasks.length === 0) {
+        console.log(chalk.yellow('[INFO] No tasks found. Create one with: contextuate task new <name>'));
+        return;
+    }
+    console.log('');
+    for (const task of tasks) {
+        printTaskStatus(task, false);
+        console.log('');
+    }
+}
+
+export async function taskCloseCommand(name: string, options: { summary?: string; keep?: boolean; force?: boolean }) {
+    try {
+        const dir = await requireTask(process.cwd(), name);
+        const task = await summarizeTask(dir);
+
+        if (task.openItems.length > 0 && !options.force) {
+            console.error(chalk.red(`[ERROR] ${task.name} still has ${task.openItems.length} open item(s):`));
+            task.openItems.forEach(i => console.error(`  - [ ] ${i.text} ${chalk.gray(`(${i.file})`)}`));
+            console.log(chalk.yellow('Check them off, or close anyway with --force.'));
+            process.exit(1);
+        }
+
+        if (options.summary) {
+            const file = await appendTaskLog(dir, { summary: options.summary, completed: ['Closed the task'] });
+            console.log(chalk.green(`[OK] Logged: ${relative(file)}`));
+        }
+
+        const target = await closeTask(process.cwd(), name, { keep: options.keep });
+        console.log(chalk.green(`[OK] Marked ${task.name} Complete.`));
+        if (!options.keep) {
+            console.log(chalk.green(`[OK] Archived to ${relative(target)}`));
+            console.log(chalk.gray(`  List archived tasks with: contextuate task list --all (${ARCHIVE_DIR})`));
+        }
+    } catch (e: any) {
+        exitOnTaskError(e);
+    }
+}
@@ -0,0 +1,200 @@
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import path from 'path';
+import { GitManager, WorktreeInfo } from '../utils/git';
+
+async function openRepoOrExit(): Promise<GitManager> {
+    const git = new GitManager(process.cwd());
+    if (!await git.isGitRepo()) {
+        console.error(chalk.red('[ERROR] Not a git repository.'));
+        process.exit(1);
+    }
+    return git;
+}
+
+/**
+ * Finds an agent worktree by directory name (`docs-bot-1718000000000`), session id
+ * or branch, exiting with a hint if there is no single match.
+ */
+async function findWorktreeOrExit(git: GitManager, id: string): Promise<WorktreeInfo> {
+    const matches = (await git.listAgentWorktrees()).filter(w =>
+        path.basename(w.path) === id || w.branch === id || w.branch?.endsWith(`/${id}`)
+    );
+
+    if (matches.length === 0) {
+        console.error(chalk.red(`[ERROR] No agent worktree matches: ${id}`));
+        console.log(chalk.yellow('Run "contextuate worktrees list" to see agent worktrees.'));
+        process.exit(1);
+    }
+    if (matches.length > 1) {
+        console.error(chalk.red(`[ERROR] "${id}" matches several worktrees; use the branch name:`));
+        matches.forEach(w => console.error(`- ${w.branch || w.path}`));
+        process.exit(1);
+    }
+    return matches[0];
+}
+
+const relative = (p: string) => path.relative(process.cwd(), p) || '.';
+
+export async function worktreesListCommand(options: { base?: string }) {
+    const git = await openRepoOrExit();
+    const worktrees = await git.listAgentWorktrees();
+
+    if (worktrees.length === 0) {
+        console.log(chalk.yellow('[INFO] No agent worktrees. They are created by "contextuate run --isolation worktree" and by sub-agents.'));
+        return;
+    }
+
+    const base = options.base || await git.getCurrentBranch();
+    console.log(chalk.bold(`\nAgent Worktrees (compared with ${base}):\n`));
+
+    for (const w of worktrees) {
+        const name = chalk.cyan(path.basename(w.path));
+        const branch = w.branch ? chalk.bold(w.branch) : chalk.gray('(detached)');
+
+        if (w.stale) {
+            console.log(`${name}  ${branch}  ${chalk.red('stale')}`);
+        } else {
+            const ahead = w.branch ? await git.commitsAhead(base, w.branch) : 0;
+            const dirty = (await git.status(w.path)).length;
+            const state = [
+                ahead > 0 ? chalk.green(`${ahead} commit(s) ahead`) : chalk.gray('no commits'),
+                dirty > 0 ? chalk.yellow(`${dirty} uncommitted change(s)`) : '',
+            ].filter(Boolean).join(', ');
+            console.log(`${name}  ${branch}  ${state}`);
+        }
+        console.log(chalk.gray(`    ${relative(w.path)}`));
+    }
+
+    if (worktrees.some(w => w.stale)) {
+        console.log(chalk.yellow('\nStale worktrees no longer exist on disk. Clean them up with: contextuate worktrees prune'));
+    }
+    console.log('');
+}
+
+export async function worktreesDiffCommand(id: string, options: { base?: string; stat?: boolean }) {
+    const git = await openRepoOrExit();
+    const worktree = await findWorktreeOrExit(git, id);
+    if (!worktree.branch) {
+        console.error(chalk.red(`[ERROR] Worktree ${relative(worktree.path)} has no branch checked out.`));
+        process.exit(1);
+    }
+
+    const base = options.base || await git.getCurrentBranch();
+    const diff = await git.diffBranch(base, worktree.branch, options.stat);
+
+    // Notes go to stderr so the diff can be piped into a file or `git apply`
+    if (!worktree.stale) {
+        const uncommitted = await git.status(worktree.path);
+        if (uncommitted.length > 0) {
+            console.error(chalk.yellow(`[WARN] ${uncommitted.length} uncommitted change(s) in the worktree are not included:`));
+            uncommitted.forEach(e => console.error(chalk.yellow(`  ${e.index}${e.worktree} ${e.path}`)));
+        }
+    }
+
+    if (!diff.trim()) {
+        console.error(chalk.blue(`[INFO] ${worktree.branch} has no committed changes since it branched from ${base}.`));
+        return;
+    }
+    process.stdout.write(diff);
+}
+
+export async function worktreesMergeCommand(id: string, options: { squash?: boolean; discard?: boolean }) {
+    const git = await openRepoOrExit();
+    const worktree = await findWorktreeOrExit(git, id);
+    if (!worktree.branch) {
+        console.error(chalk.red(`[ERROR] Worktree ${relative(worktree.path)} has no branch checked out.`));
+        process.exit(1);
+    }
+
+    const target = await git.getCurrentBranch();
+
+    if (!worktree.stale) {
+        const uncommitted = await git.status(worktree.path);
+        if (uncommitted.length > 0) {
+            console.error(chalk.red(`[ERROR] ${worktree.branch} has ${uncommitted.length} uncommitted change(s) that would not be merged.`));
+            console.log(chalk.yellow(`Commit them in ${relative(worktree.path)} first, or discard the worktree.`));
+            process.exit(1);
+        }
+    }
+
+    if (await git.commitsAhead(target, worktree.branch) === 0) {
+        console.log(chalk.blue(`[INFO] Nothing to merge: ${worktree.branch} has no commits that are not on ${target}.`));
+    } else {
+        console.log(chalk.blue(`[INFO] ${options.squash ? 'Squash-merging' : 'Merging'} ${worktree.branch} into ${target}...`));
+        const result = await git.mergeBranch(worktree.branch, {
+            squash: options.squash,
+            message: `${options.squash ? 'Squash-merge' : 'Merge'} ${worktree.branch}`,
+        });
+
+        if (!result.merged) {
+            console.error(chalk.red(`[ERROR] Merge stopped with conflicts in ${result.conflicts.length} file(s):`));
+            result.conflicts.forEach(f => console.error(chalk.red(`- ${f}`)));
+            console.log(chalk.yellow('Resolve them and commit, or run "git merge --abort". The worktree has been kept.'));
+            process.exitCode = 1;
+            return;
+        }
+        console.log(chalk.green(`[OK] Merged ${worktree.branch} into ${target}.`));
+    }
+
+    if (options.discard) {
+        await git.removeWorktree(worktree.path, true);
+        console.log(chalk.green(`[OK] Removed worktree ${relative(worktree.path)} and branch ${worktree.branch}.`));
+    }
+}
+
+export async function worktreesDiscardCommand(id: string, options: { force?: boolean }) {
+    const git = await openRepoOrExit();
+    const worktree = await findWorktreeOrExit(git, id);
+    const label = worktree.branch || relative(worktree.path);
+
+    if (!options.force) {
+        const target = await git.getCurrentBranch();
+        const ahead = worktree.branch ? await git.commitsAhead(target, worktree.branch) : 0;
+        const dirty = worktree.stale ? 0 : (await git.status(worktree.path)).length;
+
+        if (ahead > 0 || dirty > 0) {
+            console.log(chalk.yellow(`[WARN] ${label} has ${ahead} commit(s) not on ${target} and ${dirty} uncommitted change(s).`));
+        }
+        const { confirm } = await inquirer.prompt([
+            {
+                type: 'confirm',
+                name: 'confirm',
+                message: `Delete worktree ${relative(worktree.path)}${worktree.branch ? ` and branch ${worktree.branch}` : ''}?`,
+                default: false
+            }
+        ]);
+        if (!confirm) {
+            console.log(chalk.blue('[INFO] Nothing removed.'));
+            return;
+        }
+    }
+
+    await git.removeWorktree(worktree.path, true);
+    console.log(chalk.green(`[OK] Discarded ${label}.`));
+}
+
+/**
+ * Drops worktrees whose directories were deleted by hand. Their agent branches are
+ * deleted too when already merged into the current branch; unmerged ones are kept.
+ */
+export async function worktreesPruneCommand() {
+    const git = await openRepoOrExit();
+    const stale = (await git.listAgentWorktrees()).filter(w => w.stale);
+    const pruned = await git.pruneWorktrees();
+
+    if (pruned.length === 0) {
+        console.log(chalk.green('[OK] No stale worktrees.'));
+        return;
+    }
+    pruned.forEach(p => console.log(chalk.green(`[OK] Pruned ${relative(p)}`)));
+
+    for (const w of stale.filter(w => w.branch)) {
+        try {
+            await git.deleteBranch(w.branch!);
+            console.log(chalk.green(`[OK] Deleted merged branch ${w.branch}`));
+        } catch {
+            console.log(chalk.yellow(`[WARN] Kept unmerged branch ${w.branch} (delete with: git branch -D ${w.branch})`));
+        }
+    }
+}
@@ -4,10 +4,18 @@ import { Command } from 'commander';
 import { initCommand } from './commands/init';
 import { removeCommand } from './commands/remove';
 import { runCommand } from './commands/run';
+import { commandCommand } from './commands/command';
+import { taskNewCommand, taskLogCommand, taskListCommand, taskStatusCommand, taskCloseCommand } from './commands/task';
 import { createAgentCommand } from './commands/create';
 import { indexCommand } from './commands/index';
-import { addContextCommand } from './commands/context';
+import { addContextCommand, contextBuildCommand } from './commands/context';
 import { installCommand, installAgentsCommand, installStandardsCommand, installToolsCommand } from './commands/install';
+import { agentShowCommand } from './commands/agent';
+import { lintCommand } from './commands/lint';
+import { sessionsListCommand, sessionsShowCommand, sessionsExportCommand } from './commands/sessions';
+import {
+    worktreesListCommand, worktreesDiffCommand, worktreesMergeCommand, worktreesDiscardCommand, worktreesPruneCommand,
+} from './commands/worktrees';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -66,9 +74,61 @@ program
     .option('--dry-run', 'Simulate execution without running logic')
     .option('--isolation <mode>', 'Isolation mode (worktree, none)', 'none')
     .option('--goal <text>', 'Goal or instructions for the agent')
-    .option('--task <name>', 'Load a task context (scope and latest log)')
+    .option('--task <name>', 'Load a task context (scope, phases, files and latest log) and log the session to it')
+    .option('--max-turns <n>', 'Stop after this many model turns')
+    .option('--max-input-tokens <n>', 'Stop once this many input tokens have been used')
+    .option('--max-output-tokens <n>', 'Stop once this many output tokens have been used')
+    .option('--timeout <duration>', 'Wall-clock limit for the run (e.g. 90, 30s, 10m)')
+    .option('--max-concurrency <n>', 'Sub-agents the dispatch tool may run at once (default 3)')
+    .option('--mock-script <file>', 'Run with the mock provider using a YAML/JSON fixture of scripted turns')
+    .option('--replay <session>', 'Replay a recorded session (id or .jsonl path) instead of calling a model')
+    .option('--max-context-tokens <n>', 'Token budget for the assembled system prompt (default 100000)')
+    .option('--non-interactive', 'Never prompt: tool calls that need approval are denied')
+    .option('--export-patch [file]', 'With --isolation worktree: also write the changes as a patch (default .contextuate/sessions/<id>.patch)')
     .action(runCommand);
 
+program
+    .command('command [name] [args...]')
+    .description('Run a command template from docs/ai/commands as the goal for its agent')
+    .option('-l, --list', 'List available commands')
+    .option('--agent <name>', 'Run with this agent instead of the one the command declares')
+    .option('--print', 'Print the rendered goal without running it')
+    .option('--isolation <mode>', 'Isolation mode (worktree, none)', 'none')
+    .option('--dry-run', 'Simulate execution without running logic')
+    .option('--task <name>', 'Load a task context (scope, phases, files and latest log) and log the session to it')
+    .option('--mock-script <file>', 'Run with the mock provider using a YAML/JSON fixture of scripted turns')
+    .option('--non-interactive', 'Never prompt: tool calls that need approval are denied')
+    .action(commandCommand);
+
+// Agent definitions
+const agent = program
+    .command('agent')
+    .description('Inspect agent definitions');
+
+agent
+    .command('show <name>')
+    .description('Print an agent definition')
+    .option('--resolved', 'Print the effective definition with inherited agents merged in')
+    .action(agentShowCommand);
+
+program
+    .command('lint')
+    .description('Validate agent frontmatter, tool definitions, context references and docs/ai links')
+    .action(lintCommand);
+
+// Context assembly
+const context = program
+    .command('context')
+    .description('Inspect the context assembled for an agent');
+
+context
+    .command('build <agent>')
+    .description('Show the exact system prompt an agent run would receive')
+    .option('-o, --out <file>', 'Write the payload to a file instead of stdout')
+    .option('--task <name>', 'Include a task context (scope, phases, files and latest log)')
+    .option('--max-tokens <n>', 'Token budget (defaults to context.max_tokens or 100000)')
+    .action(contextBuildCommand);
+
 // Install command with subcommands and flag-based usage
 const install = program
     .command('install')
@@ -105,4 +165,103 @@ install
     .option('-f, --force', 'Overwrite existing files')
     .action(installToolsCommand);
 
+// Session transcripts written by `run`
+const sessions = program
+    .command('sessions')
+    .description('Inspect recorded agent sessions');
+
+sessions
+    .command('list')
+    .description('List recorded sessions')
+    .action(sessionsListCommand);
+
+sessions
+    .command('show <id>')
+    .description('Show the transcript of a session')
+    .action(sessionsShowCommand);
+
+sessions
+    .command('export <id>')
+    .description('Export a session transcript (JSON by default)')
+    .option('--markdown', 'Export as a markdown report')
+    .option('-o, --out <file>', 'Write to a file instead of stdout')
+    .action(sessionsExportCommand);
+
+// Worktrees left behind by `run --isolation worktree` and sub-agents
+const worktrees = program
+    .command('worktrees')
+    .description('Review, merge and clean up agent worktrees');
+
+worktrees
+    .command('list')
+    .description('List agent worktrees and their branches')
+    .option('--base <branch>', 'Branch to compare with (default: current branch)')
+    .action(worktreesListCommand);
+
+worktrees
+    .command('diff <id>')
+    .description('Show what an agent branch changed (id: worktree name, session id or branch)')
+    .option('--base <branch>', 'Branch to diff against (default: current branch)')
+    .option('--stat', 'Show a diffstat instead of the full diff')
+    .action(worktreesDiffCommand);
+
+worktrees
+    .command('merge <id>')
+    .description('Merge an agent branch into the current branch')
+    .option('--squash', 'Squash the branch into a single commit')
+    .option('--discard', 'Remove the worktree and branch after a successful merge')
+    .action(worktreesMergeCommand);
+
+worktrees
+    .command('discard <id>')
+    .description('Delete an agent worktree and its branch')
+    .option('-f, --force', 'Do not ask for confirmation')
+    .action(worktreesDiscardCommand);
+
+worktrees
+    .command('prune')
+    .description('Clean up worktrees whose directories no longer exist')
+    .action(worktreesPruneCommand);
+
+const task = program
+    .command('task')
+    .description('Manage multi-session tasks in docs/ai/tasks');
+
+task
+    .command('new <name>')
+    .description('Create a task from the scope template')
+    .option('--title <text>', 'Task title (default: from the name)')
+    .option('--objective <text>', 'Objective paragraph for the scope file')
+    .option('--phases <names...>', 'Create numbered phase files')
+    .action(taskNewCommand);
+
+task
+    .command('log <name> <summary>')
+    .description('Append the next numbered log entry')
+    .option('--platform <name>', 'Platform that did the work (default "Contextuate CLI")')
+    .option('--done <items...>', 'Work completed')
+    .option('--decision <items...>', 'Decisions made')
+    .option('--blocker <items...>', 'Blockers or issues')
+    .option('--next <items...>', 'Next steps')
+    .action(taskLogCommand);
+
+task
+    .command('status [name]')
+    .description('Show phases, the last log and open items for one task or all tasks')
+    .action(taskStatusCommand);
+
+task
+    .command('list')
+    .description('List tasks with their status')
+    .option('-a, --all', 'Include archived tasks')
+    .action(taskListCommand);
+
+task
+    .command('close <name>')
+    .description('Mark a task Complete and archive it')
+    .option('-s, --summary <text>', 'Write a final log entry first')
+    .option('--keep', 'Leave the task in place instead of archiving it')
+    .option('-f, --force', 'Close even with open items')
+    .action(taskCloseCommand);
+
 program.parse();
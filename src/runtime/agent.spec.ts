@@ -0,0 +1,103 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AGENTS_DIR, AgentResolutionError, loadAgentFile, mergeAgentConfig, resolveAgent } from './agent';
+
+describe('mergeAgentConfig', () => {
+    it('never inherits name, description or version', () => {
+        const merged = mergeAgentConfig({ name: 'base', description: 'Base', version: '1.0', env: [] }, { name: 'child' });
+        expect(merged.name).toBe('child');
+        expect(merged).not.toHaveProperty('description');
+        expect(merged).not.toHaveProperty('version');
+    });
+
+    it('concatenates lists parent-first without duplicates', () => {
+        const merged = mergeAgentConfig(
+            { capabilities: ['read_files', 'write_files'], env: ['A'], readonly: ['a/**'] },
+            { capabilities: ['write_files', 'run_shell'], env: ['B', 'A'], readonly: ['b/**'] }
+        );
+        expect(merged.capabilities).toEqual(['read_files', 'write_files', 'run_shell']);
+        expect(merged.env).toEqual(['A', 'B']);
+        expect(merged.readonly).toEqual(['a/**', 'b/**']);
+    });
+
+    it('merges context lists and lets the child set max_tokens', () => {
+        const merged = mergeAgentConfig(
+            { context: { files: ['README.md'], directories: ['src', { path: 'docs', include: ['*.md'] }], max_tokens: 1000 } },
+            { context: { files: ['README.md', 'CHANGELOG.md'], directories: [{ path: 'docs', include: ['*.md'] }], max_tokens: 500 } }
+        );
+        expect(merged.context).toEqual({
+            files: ['README.md', 'CHANGELOG.md'],
+            directories: ['src', { path: 'docs', include: ['*.md'] }],
+            max_tokens: 500,
+        });
+    });
+
+    it('overrides provider and individual limits', () => {
+        const merged = mergeAgentConfig(
+            { provider: { type: 'anthropic', model: 'a' }, limits: { max_turns: 10, timeout: '5m' } },
+            { provider: { type: 'mock', model: 'm' }, limits: { max_turns: 3 } }
+        );
+        expect(merged.provider).toEqual({ type: 'mock', model: 'm' });
+        expect(merged.limits).toEqual({ max_turns: 3, timeout: '5m' });
+    });
+
+    it('merges permissions per tool', () => {
+        const merged = mergeAgentConfig(
+            { permissions: { default: 'ask', tools: { run_shell: 'deny', read_file: 'allow' } } },
+            { permissions: { tools: { run_shell: 'ask' } } }
+        );
+        expect(merged.permissions).toEqual({ default: 'ask', tools: { run_shell: 'ask', read_file: 'allow' } });
+    });
+});
+
+describe('resolveAgent', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-agents-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(root);
+    });
+
+    const writeAgent = (dir: string, name: string, frontmatter: string, body: string) =>
+        fs.outputFile(path.join(root, dir, `${name}.md`), `---\n${frontmatter}\n---\n${body}\n`);
+    const load = (name: string, dir = AGENTS_DIR) => loadAgentFile(name, path.join(root, dir, `${name}.md`));
+
+    it('merges the chain root-first and prepends parent bodies', async () => {
+        await writeAgent(AGENTS_DIR, 'base', 'capabilities: ["read_files"]', 'Base rules');
+        await writeAgent(AGENTS_DIR, 'dev', 'inherits: base\ncapabilities: ["write_files"]', 'Dev rules');
+        await writeAgent(AGENTS_DIR, 'lead', 'name: lead\ninherits: dev', 'Lead rules');
+
+        const resolved = await resolveAgent(root, await load('lead'));
+        expect(resolved.chain.map(a => a.name)).toEqual(['base', 'dev', 'lead']);
+        expect(resolved.config.capabilities).toEqual(['read_files', 'write_files']);
+        expect(resolved.config).not.toHaveProperty('inherits');
+        expect(resolved.body).toBe('Base rules\n\nDev rules\n\nLead rules');
+    });
+
+    it('lets a project agent inherit the framework agent of the same name', async () => {
+        await writeAgent('docs/ai/.contextuate/agents', 'base', 'env: ["FRAMEWORK"]', 'Framework base');
+        await writeAgent(AGENTS_DIR, 'base', 'inherits: base\nenv: ["PROJECT"]', 'Project base');
+
+        const resolved = await resolveAgent(root, await load('base'));
+        expect(resolved.config.env).toEqual(['FRAMEWORK', 'PROJECT']);
+        expect(resolved.body).toBe('Framework base\n\nProject base');
+    });
+
+    it('throws on an unknown parent', async () => {
+        await writeAgent(AGENTS_DIR, 'orphan', 'inherits: nobody', '');
+        await expect(resolveAgent(root, await load('orphan'))).rejects.toThrow("Agent 'orphan' inherits unknown agent 'nobody'");
+    });
+
+    it('throws on a cycle', async () => {
+        await writeAgent(AGENTS_DIR, 'a', 'inherits: b', '');
+        await writeAgent(AGENTS_DIR, 'b', 'inherits: a', '');
+        const error = await resolveAgent(root, await load('a')).catch(e => e);
+        expect(error).toBeInstanceOf(AgentResolutionError);
+        expect(error.message).toBe('Inheritance cycle: a -> b -> a');
+    });
+});
@@ -0,0 +1,199 @@
+import fs from 'fs-extra';
+import path from 'path';
+import matter from 'gray-matter';
+import { PermissionConfig, mergePermissions } from './policy';
+
+/**
+ * A `context.directories` entry: a plain path, or a path with include/exclude globs
+ * (relative to the project root).
+ */
+export type ContextDirectory = string | {
+    path: string;
+    include?: string[];
+    exclude?: string[];
+};
+
+export interface AgentConfig {
+    name?: string;
+    description?: string;
+    version?: string;
+    inherits?: string;   // Parent agent, looked up like any other agent name
+    capabilities?: string[];
+    context?: {
+        files?: string[];
+        directories?: ContextDirectory[];
+        max_tokens?: number; // Token budget for the assembled system prompt
+        tokenizer?: string;  // Counts tokens for the budget; defaults to the provider model's
+    };
+    env?: string[];
+    provider?: {
+        type: string;
+        model: string;
+        base_url?: string;
+        api_key_env?: string;
+        max_tokens?: number;
+        module?: string;
+        session?: string;
+        script?: string;
+    };
+    limits?: {
+        max_turns?: number;
+        max_input_tokens?: number;
+        max_output_tokens?: number;
+        timeout?: string | number; // Seconds, or "30s" / "10m" / "1h"
+        max_concurrency?: number;  // Sub-agents the dispatch tool runs at once
+    };
+    permissions?: PermissionConfig; // Layered over docs/ai/policy.yaml
+    readonly?: string[];            // Globs the agent's write tools may not touch
+}
+
+export interface AgentDefinition {
+    name: string;       // Name the agent was requested by (file name without .md)
+    path: string;
+    config: AgentConfig;
+    body: string;       // Markdown after the frontmatter
+}
+
+/**
+ * An agent with its inheritance chain applied: `config` and `body` are merged from
+ * every ancestor.
+ */
+export interface ResolvedAgent extends AgentDefinition {
+    chain: AgentDefinition[]; // Root ancestor first, the agent itself last
+}
+
+export class AgentResolutionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AgentResolutionError';
+    }
+}
+
+export const AGENTS_DIR = 'docs/ai/agents';
+
+// Project agents take precedence over the framework's
+export const AGENT_SEARCH_DIRS = [AGENTS_DIR, 'docs/ai/.contextuate/agents'];
+
+/**
+ * Returns the path of `<name>.md` in the first agents directory that has it, or null.
+ * `skip` excludes a file, so a project `base.md` can inherit the framework's `base`.
+ */
+export async function findAgentFile(projectRoot: string, name: string, skip?: string): Promise<string | null> {
+    for (const dir of AGENT_SEARCH_DIRS) {
+        const agentPath = path.join(projectRoot, dir, `${name}.md`);
+        if (agentPath !== skip && await fs.pathExists(agentPath)) {
+            return agentPath;
+        }
+    }
+    return null;
+}
+
+export async function listAgents(projectRoot: string): Promise<string[]> {
+    const names = new Set<string>();
+    for (const dir of AGENT_SEARCH_DIRS) {
+        const agentsDir = path.join(projectRoot, dir);
+        if (!await fs.pathExists(agentsDir)) continue;
+        (await fs.readdir(agentsDir))
+            .filter(f => f.endsWith('.md'))
+            .forEach(f => names.add(f.replace(/\.md$/, '')));
+    }
+    return [...names].sort();
+}
+
+export async function loadAgentFile(name: string, agentPath: string): Promise<AgentDefinition> {
+    const parsed = matter(await fs.readFile(agentPath, 'utf-8'));
+    return {
+        name,
+        path: agentPath,
+        config: (parsed.data || {}) as AgentConfig,
+        body: parsed.content.trim(),
+    };
+}
+
+function unique<T>(items: T[], key: (item: T) => string = String): T[] {
+    const seen = new Set<string>();
+    return items.filter(item => {
+        const k = key(item);
+        if (seen.has(k)) return false;
+        seen.add(k);
+        return true;
+    });
+}
+
+/**
+ * Merges a child config over its (already resolved) parent. Lists are concatenated
+ * parent-first without duplicates; `provider`, `context.max_tokens`, `context.tokenizer`,
+ * individual `limits` keys and per-tool `permissions` come from the child when set. Name,
+ * description and version are never inherited.
+ */
+export function mergeAgentConfig(parent: AgentConfig, child: AgentConfig): AgentConfig {
+    // Identity belongs to the child (and stays first when the result is printed)
+    const identity = { name: child.name, description: child.description, version: child.version };
+    const merged: AgentConfig = { ...identity, ...parent, ...child, ...identity };
+    for (const key of Object.keys(identity) as (keyof typeof identity)[]) {
+        if (merged[key] === undefined) delete merged[key];
+    }
+
+    merged.capabilities = unique([...(parent.capabilities || []), ...(child.capabilities || [])]);
+    merged.env = unique([...(parent.env || []), ...(child.env || [])]);
+    if (parent.readonly || child.readonly) {
+        merged.readonly = unique([...(parent.readonly || []), ...(child.readonly || [])]);
+    }
+
+    if (parent.context || child.context) {
+        merged.context = {
+            ...parent.context,
+            ...child.context,
+            files: unique([...(parent.context?.files || []), ...(child.context?.files || [])]),
+            directories: unique(
+                [...(parent.context?.directories || []), ...(child.context?.directories || [])],
+                d => JSON.stringify(d)
+            ),
+        };
+    }
+
+    if (parent.limits || child.limits) {
+        merged.limits = { ...parent.limits, ...child.limits };
+    }
+
+    if (parent.permissions || child.permissions) {
+        merged.permissions = mergePermissions(parent.permissions, child.permissions);
+    }
+
+    return merged;
+}
+
+/**
+ * Follows `inherits:` up to the root ancestor and merges the chain. Parent bodies
+ * are prepended to the child's. Throws AgentResolutionError on a missing parent
+ * or a cycle.
+ */
+export async function resolveAgent(projectRoot: string, agent: AgentDefinition): Promise<ResolvedAgent> {
+    const chain: AgentDefinition[] = [agent];
+    let current = agent;
+
+    while (current.config.inherits) {
+        const parentName = current.config.inherits;
+        const parentPath = await findAgentFile(projectRoot, parentName, current.path);
+        if (!parentPath) {
+            throw new AgentResolutionError(`Agent '${current.name}' inherits unknown agent '${parentName}'`);
+        }
+        if (chain.some(a => a.path === parentPath)) {
+            const names = [...chain].reverse().map(a => a.name);
+            throw new AgentResolutionError(`Inheritance cycle: ${[...names, parentName].join(' -> ')}`);
+        }
+
+        current = await loadAgentFile(parentName, parentPath);
+        chain.unshift(current);
+    }
+
+    const config = chain.slice(1).reduce((merged, a) => mergeAgentConfig(merged, a.config), { ...chain[0].config });
+    delete config.inherits; // Already applied
+
+    return {
+        ...agent,
+        config,
+        body: chain.map(a => a.body).filter(Boolean).join('\n\n'),
+        chain,
+    };
+}
@@ -0,0 +1,184 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BUILTIN_TOOLS, ToolError, applyHunks, isBuiltinCapability, parseUnifiedDiff, resolveBuiltinTools } from './builtins';
+
+describe('parseUnifiedDiff', () => {
+    it('parses file headers and hunks', () => {
+        const [file] = parseUnifiedDiff([
+            '--- a/src/app.ts',
+            '+++ b/src/app.ts',
+            '@@ -1,2 +1,2 @@',
+            ' const a = 1;',
+            '-const b = 2;',
+            '+const b = 3;',
+        ].join('\n'));
+
+        expect(file.oldPath).toBe('src/app.ts');
+        expect(file.newPath).toBe('src/app.ts');
+        expect(file.hunks).toEqual([{ oldStart: 1, lines: [' const a = 1;', '-const b = 2;', '+const b = 3;'] }]);
+    });
+
+    it('treats /dev/null as a new or deleted file', () => {
+        const files = parseUnifiedDiff([
+            '--- /dev/null',
+            '+++ b/new.txt',
+            '@@ -0,0 +1 @@',
+            '+hello',
+            '--- a/old.txt',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-bye',
+        ].join('\n'));
+
+        expect(files.map(f => [f.oldPath, f.newPath])).toEqual([[null, 'new.txt'], ['old.txt', null]]);
+    });
+
+    it('keeps blank context lines and skips "no newline" markers', () => {
+        const [file] = parseUnifiedDiff([
+            '--- a/x',
+            '+++ b/x',
+            '@@ -1,3 +1,3 @@',
+            ' one',
+            '',
+            '-three',
+            '\\ No newline at end of file',
+            '+THREE',
+        ].join('\n'));
+
+        expect(file.hunks[0].lines).toEqual([' one', ' ', '-three', '+THREE']);
+    });
+
+    it('rejects text without file headers', () => {
+        expect(() => parseUnifiedDiff('just some text')).toThrow(ToolError);
+    });
+
+    it('rejects malformed hunk lines', () => {
+        expect(() => parseUnifiedDiff('--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n one\n?two')).toThrow(/Malformed hunk line 5/);
+    });
+});
+
+describe('applyHunks', () => {
+    const apply = (original: string, patch: string) => applyHunks(original, parseUnifiedDiff(patch)[0].hunks, 'x');
+
+    it('applies a hunk at its stated line', () => {
+        const patch = '--- a/x\n+++ b/x\n@@ -2,2 +2,2 @@\n b\n-c\n+C';
+        expect(apply('a\nb\nc\nd', patch)).toBe('a\nb\nC\nd');
+    });
+
+    it('finds a hunk whose line numbers have drifted', () => {
+        const patch = '--- a/x\n+++ b/x\n@@ -1,2 +1,2 @@\n b\n-c\n+C';
+        expect(apply('new\nlines\na\nb\nc\nd', patch)).toBe('new\nlines\na\nb\nC\nd');
+    });
+
+    it('shifts later hunks by the lines earlier ones added', () => {
+        const patch = [
+            '--- a/x',
+            '+++ b/x',
+            '@@ -1,1 +1,2 @@',
+            ' a',
+            '+a2',
+            '@@ -3,1 +4,1 @@',
+            '-c',
+            '+C',
+        ].join('\n');
+        expect(apply('a\nb\nc', patch)).toBe('a\na2\nb\nC');
+    });
+
+    it('creates a file from an empty original', () => {
+        expect(apply('', '--- /dev/null\n+++ b/x\n@@ -0,0 +1,2 @@\n+one\n+two')).toBe('one\ntwo');
+    });
+
+    it('throws when the context is not found', () => {
+        const patch = '--- a/x\n+++ b/x\n@@ -1,1 +1,1 @@\n-missing\n+found';
+        expect(() => apply('a\nb', patch)).toThrow(/does not apply to x/);
+    });
+});
+
+describe('resolveBuiltinTools', () => {
+    it('grants the tools behind each capability once', () => {
+        expect(resolveBuiltinTools(['read_files', 'search_files']).map(t => t.name)).toEqual(['read_file', 'list_files', 'search_files']);
+    });
+
+    it('grants a single tool by its own name', () => {
+        expect(resolveBuiltinTools(['run_shell']).map(t => t.name)).toEqual(['run_shell']);
+        expect(isBuiltinCapability('run_shell')).toBe(true);
+        expect(isBuiltinCapability('deploy')).toBe(false);
+    });
+
+    it('does not treat Object.prototype keys as capabilities', () => {
+        for (const cap of ['constructor', 'toString', '__proto__']) {
+            expect(isBuiltinCapability(cap)).toBe(false);
+            expect(resolveBuiltinTools([cap])).toEqual([]);
+        }
+    });
+});
+
+describe('built-in tools', () => {
+    let cwd: string;
+
+    beforeEach(async () => {
+        cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-tools-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(cwd);
+    });
+
+    const run = (name: string, input: Record<string, any>, readonly?: string[]) =>
+        BUILTIN_TOOLS.find(t => t.name === name)!.run(input, { cwd, readonly });
+
+    it('writes a file, creating directories, and reads it back by line range', async () => {
+        expect(await run('write_file', { path: 'src/a.txt', content: 'one\ntwo\nthree' }))
+            .toEqual({ path: path.join('src', 'a.txt'), bytes: 13, created: true });
+
+        const read = await run('read_file', { path: 'src/a.txt', offset: 2, limit: 1 });
+        expect(read).toEqual({ path: path.join('src', 'a.txt'), total_lines: 3, start_line: 2, content: 'two' });
+    });
+
+    it('refuses paths outside the working directory, including through symlinks', async () => {
+        await expect(run('write_file', { path: '../escape.txt', content: 'x' })).rejects.toThrow("Path '../escape.txt' is outside the working directory.");
+
+        await fs.symlink(os.tmpdir(), path.join(cwd, 'link'));
+        await expect(run('write_file', { path: 'link/escape.txt', content: 'x' })).rejects.toThrow(/resolves outside the working directory/);
+    });
+
+    it('refuses writes to protected paths and the agent\'s readonly globs', async () => {
+        await expect(run('write_file', { path: 'docs/ai/.contextuate/agents/base.md', content: 'x' }))
+            .rejects.toThrow("Path 'docs/ai/.contextuate/agents/base.md' is a protected path (matches 'docs/ai/.contextuate/**') and can't be modified.");
+        await expect(run('write_file', { path: '.git/config', content: 'x' })).rejects.toThrow(/is a protected path/);
+        await expect(run('write_file', { path: 'docs/spec.md', content: 'x' }, ['docs/**']))
+            .rejects.toThrow("Path 'docs/spec.md' is read-only for this agent (matches 'docs/**') and can't be modified.");
+
+        await fs.ensureDir(path.join(cwd, '.git'));
+        await fs.symlink(path.join(cwd, '.git'), path.join(cwd, 'gitdir'));
+        await expect(run('write_file', { path: 'gitdir/HEAD', content: 'x' })).rejects.toThrow(/is a protected path/);
+    });
+
+    it('refuses a patch that renames a readonly file away', async () => {
+        await fs.outputFile(path.join(cwd, 'docs/a.md'), 'a\n');
+        const rename = '--- a/docs/a.md\n+++ b/a.md\n@@ -1 +1 @@\n-a\n+b';
+
+        await expect(run('apply_patch', { patch: rename }, ['docs/**'])).rejects.toThrow(/read-only for this agent/);
+        expect(await fs.pathExists(path.join(cwd, 'a.md'))).toBe(false);
+    });
+
+    it('applies a patch to every file or to none', async () => {
+        await fs.writeFile(path.join(cwd, 'a.txt'), 'a\n');
+        const good = '--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-a\n+A';
+        const bad = '--- a/missing.txt\n+++ b/missing.txt\n@@ -1 +1 @@\n-x\n+y';
+
+        await expect(run('apply_patch', { patch: `${good}\n${bad}` })).rejects.toThrow('File not found: missing.txt');
+        expect(await fs.readFile(path.join(cwd, 'a.txt'), 'utf-8')).toBe('a\n');
+
+        expect(await run('apply_patch', { patch: good })).toEqual({ files: ['a.txt'] });
+        expect(await fs.readFile(path.join(cwd, 'a.txt'), 'utf-8')).toBe('A\n');
+    });
+
+    it('runs shell commands in the working directory', async () => {
+        const result = await run('run_shell', { command: 'pwd && echo oops >&2 && exit 3' });
+        expect(result).toMatchObject({ exit_code: 3, timed_out: false, stderr: 'oops\n' });
+        expect(await fs.realpath(result.stdout.trim())).toBe(await fs.realpath(cwd));
+    });
+});
@@ -0,0 +1,563 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { spawn } from 'child_process';
+import { matchesAny } from '../utils/glob';
+import { waitForExit } from '../utils/process';
+
+/**
+ * JSON schema describing a tool's input, passed to the model as-is.
+ */
+export interface JSONSchema {
+    type: string;
+    properties?: Record<string, any>;
+    required?: string[];
+    [key: string]: any;
+}
+
+/** What the model sees for a callable tool. */
+export interface ToolSpec {
+    name: string;
+    description: string;
+    inputSchema: JSONSchema;
+}
+
+export interface ToolContext {
+    cwd: string; // Runtime root (the worktree when isolated); tools may not touch anything outside it
+    readonly?: string[]; // The agent's `readonly` globs, on top of PROTECTED_PATHS
+    signal?: AbortSignal; // Aborted when the run stops (e.g. on timeout); long-running tools should give up
+}
+
+/** A tool the driver can call: a built-in, or a project tool bound in *.tool.md frontmatter. */
+export interface ExecutableTool extends ToolSpec {
+    run(input: Record<string, any>, ctx: ToolContext): Promise<any>;
+}
+
+/**
+ * Raised by tools for expected failures (bad input, path outside the root, missing file).
+ * The message is returned to the model as the tool error.
+ */
+export class ToolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ToolError';
+    }
+}
+
+// Keep tool output from flooding the model's context
+const MAX_READ_BYTES = 256 * 1024;
+const MAX_OUTPUT_CHARS = 50000;
+const MAX_LIST_ENTRIES = 1000;
+const SKIP_DIRS = new Set(['.git', 'node_modules']);
+
+// Framework files and git internals, which write tools refuse whatever the agent says
+export const PROTECTED_PATHS = ['docs/ai/.contextuate/**', '.git', '.git/**'];
+
+/**
+ * Resolves `target` against the runtime root and refuses anything that escapes it,
+ * including through symlinks.
+ */
+export async function resolveInside(root: string, target: string): Promise<string> {
+    if (typeof target !== 'string' || target.length === 0) {
+        throw new ToolError('A non-empty "path" is required.');
+    }
+
+    const realRoot = await fs.realpath(root);
+    const resolved = path.resolve(realRoot, target);
+    const isInside = (p: string) => p === realRoot || p.startsWith(realRoot + path.sep);
+
+    if (!isInside(resolved)) {
+        throw new ToolError(`Path '${target}' is outside the working directory.`);
+    }
+
+    // Follow symlinks for the deepest existing ancestor so links can't point out of the root
+    let existing = resolved;
+    while (!await fs.pathExists(existing)) {
+        existing = path.dirname(existing);
+    }
+    const real = await fs.realpath(existing);
+    if (!isInside(real)) {
+        throw new ToolError(`Path '${target}' resolves outside the working directory.`);
+    }
+
+    return resolved;
+}
+
+/**
+ * Like resolveInside, but also refuses protected paths and the agent's `readonly`
+ * globs. Symlinks are checked at their target too.
+ */
+export async function resolveWritable(ctx: ToolContext, target: string): Promise<string> {
+    const resolved = await resolveInside(ctx.cwd, target);
+    const realRoot = await fs.realpath(ctx.cwd);
+
+    let existing = resolved;
+    while (!await fs.pathExists(existing)) {
+        existing = path.dirname(existing);
+    }
+    const real = path.join(await fs.realpath(existing), path.relative(existing, resolved));
+
+    const globs = [...PROTECTED_PATHS, ...(ctx.readonly || [])];
+    for (const candidate of [resolved, real]) {
+        const rel = path.relative(realRoot, candidate).split(path.sep).join('/');
+        const match = globs.find(g => matchesAny(rel, [g]));
+        if (match) {
+            const source = PROTECTED_PATHS.includes(match) ? 'a protected path' : 'read-only for this agent';
+            throw new ToolError(`Path '${target}' is ${source} (matches '${match}') and can't be modified.`);
+        }
+    }
+
+    return resolved;
+}
+
+function truncate(text: string, limit: number = MAX_OUTPUT_CHARS): string {
+    return text.length > limit ? text.slice(0, limit) + `\n... [truncated ${text.length - limit} chars]` : text;
+}
+
+async function walk(root: string, dir: string, visit: (rel: string, abs: string, isDir: boolean) => Promise<boolean | void>): Promise<void> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+        const abs = path.join(dir, entry.name);
+        const rel = path.relative(root, abs);
+        const isDir = entry.isDirectory();
+
+        // Returning false stops the walk
+        if (await visit(rel, abs, isDir) === false) return;
+        if (isDir && !SKIP_DIRS.has(entry.name)) {
+            await walk(root, abs, visit);
+        }
+    }
+}
+
+const readFileTool: ExecutableTool = {
+    name: 'read_file',
+    description: 'Read a text file relative to the working directory. Use offset/limit (1-based lines) for large files.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            path: { type: 'string', description: 'File path relative to the working directory' },
+            offset: { type: 'integer', description: 'First line to return (1-based)', minimum: 1 },
+            limit: { type: 'integer', description: 'Maximum number of lines to return', minimum: 1 },
+        },
+        required: ['path'],
+    },
+    async run(input, ctx) {
+        const file = await resolveInside(ctx.cwd, input.path);
+        if (!await fs.pathExists(file)) throw new ToolError(`File not found: ${input.path}`);
+
+        const stat = await fs.stat(file);
+        if (stat.isDirectory()) throw new ToolError(`'${input.path}' is a directory. Use list_files instead.`);
+        if (stat.size > MAX_READ_BYTES && !input.limit) {
+            throw new ToolError(`File is ${stat.size} bytes; pass offset/limit to read it in parts.`);
+        }
+
+        const lines = (await fs.readFile(file, 'utf-8')).split('\n');
+        const start = Math.max((input.offset || 1) - 1, 0);
+        const end = input.limit ? start + input.limit : lines.length;
+
+        return {
+            path: path.relative(ctx.cwd, file),
+            total_lines: lines.length,
+            start_line: start + 1,
+            content: truncate(lines.slice(start, end).join('\n')),
+        };
+    },
+};
+
+const listFilesTool: ExecutableTool = {
+    name: 'list_files',
+    description: 'List files and directories. Skips .git and node_modules when listing recursively.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            path: { type: 'string', description: 'Directory relative to the working directory (default ".")' },
+            recursive: { type: 'boolean', description: 'List subdirectories too (default false)' },
+        },
+    },
+    async run(input, ctx) {
+        const dir = await resolveInside(ctx.cwd, input.path || '.');
+        if (!await fs.pathExists(dir) || !(await fs.stat(dir)).isDirectory()) {
+            throw new ToolError(`Not a directory: ${input.path || '.'}`);
+        }
+
+        const entries: string[] = [];
+        let truncated = false;
+
+        if (input.recursive) {
+            await walk(dir, dir, async (rel, _abs, isDir) => {
+                if (entries.length >= MAX_LIST_ENTRIES) {
+                    truncated = true;
+                    return false;
+                }
+                entries.push(isDir ? rel + '/' : rel);
+            });
+        } else {
+            const dirents = await fs.readdir(dir, { withFileTypes: true });
+            dirents.sort((a, b) => a.name.localeCompare(b.name));
+            entries.push(...dirents.map(d => d.isDirectory() ? d.name + '/' : d.name));
+        }
+
+        return { path: path.relative(ctx.cwd, dir) || '.', entries, truncated };
+    },
+};
+
+const searchFilesTool: ExecutableTool = {
+    name: 'search_files',
+    description: 'Search file contents with a JavaScript regular expression. Returns matching lines with file and line number.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            pattern: { type: 'string', description: 'Regular expression to search for' },
+            path: { type: 'string', description: 'Directory or file to search (default ".")' },
+            ignore_case: { type: 'boolean', description: 'Case-insensitive match (default false)' },
+            max_results: { type: 'integer', description: 'Stop after this many matches (default 100)', minimum: 1 },
+        },
+        required: ['pattern'],
+    },
+    async run(input, ctx) {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(input.pattern, input.ignore_case ? 'i' : '');
+        } catch (e: any) {
+            throw new ToolError(`Invalid regular expression: ${e.message}`);
+        }
+
+        const target = await resolveInside(ctx.cwd, input.path || '.');
+        if (!await fs.pathExists(target)) throw new ToolError(`Path not found: ${input.path}`);
+
+        const maxResults = input.max_results || 100;
+        const matches: { file: string; line: number; text: string }[] = [];
+
+        const searchFile = async (abs: string) => {
+            const stat = await fs.stat(abs);
+            if (stat.size > MAX_READ_BYTES) return;
+            const content = await fs.readFile(abs, 'utf-8');
+            if (content.includes('\u0000')) return; // binary
+
+            const lines = content.split('\n');
+            for (let i = 0; i < lines.length && matches.length < maxResults; i++) {
+                if (regex.test(lines[i])) {
+                    matches.push({ file: path.relative(ctx.cwd, abs), line: i + 1, text: truncate(lines[i], 500) });
+                }
+            }
+        };
+
+        if ((await fs.stat(target)).isDirectory()) {
+            await walk(target, target, async (_rel, abs, isDir) => {
+                if (matches.length >= maxResults) return false;
+                if (!isDir) await searchFile(abs);
+            });
+        } else {
+            await searchFile(target);
+        }
+
+        return { matches, truncated: matches.length >= maxResults };
+    },
+};
+
+const writeFileTool: ExecutableTool = {
+    name: 'write_file',
+    description: 'Create or overwrite a file with the given content. Parent directories are created as needed.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            path: { type: 'string', description: 'File path relative to the working directory' },
+            content: { type: 'string', description: 'Full file content' },
+        },
+        required: ['path', 'content'],
+    },
+    async run(input, ctx) {
+        if (typeof input.content !== 'string') throw new ToolError('"content" must be a string.');
+
+        const file = await resolveWritable(ctx, input.path);
+        const created = !await fs.pathExists(file);
+        await fs.ensureDir(path.dirname(file));
+        await fs.writeFile(file, input.content);
+
+        return { path: path.relative(ctx.cwd, file), bytes: Buffer.byteLength(input.content), created };
+    },
+};
+
+interface Hunk {
+    oldStart: number;
+    lines: string[]; // Prefixed with ' ', '-' or '+'
+}
+
+interface FilePatch {
+    oldPath: string | null; // null for new files
+    newPath: string | null; // null for deletions
+    hunks: Hunk[];
+}
+
+function stripPrefix(p: string): string | null {
+    const name = p.split('\t')[0].trim();
+    if (name === '/dev/null') return null;
+    return name.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parses a unified diff (as produced by `git diff` or `diff -u`).
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+    const files: FilePatch[] = [];
+    const lines = patch.replace(/\r\n/g, '\n').split('\n');
+    let current: FilePatch | null = null;
+    let hunk: Hunk | null = null;
+    // Lines still expected in the current hunk, from the @@ header counts
+    let oldLeft = 0;
+    let newLeft = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (hunk && (oldLeft > 0 || newLeft > 0)) {
+            // Some generators drop the leading space on blank context lines
+            const entry = line === '' ? ' ' : line;
+            if (entry.startsWith('\\')) continue; // "\ No newline at end of file"
+            if (entry.startsWith('+')) {
+                newLeft--;
+            } else if (entry.startsWith('-')) {
+                oldLeft--;
+            } else if (entry.startsWith(' ')) {
+                oldLeft--;
+                newLeft--;
+            } else {
+                throw new ToolError(`Malformed hunk line ${i + 1}: ${line}`);
+            }
+            hunk.lines.push(entry);
+            continue;
+        }
+
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            current = { oldPath: stripPrefix(line.slice(4)), newPath: stripPrefix(lines[i + 1].slice(4)), hunks: [] };
+            files.push(current);
+            hunk = null;
+            i++;
+            continue;
+        }
+
+        const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+        if (header) {
+            if (!current) throw new ToolError('Patch has a hunk before any file header.');
+            hunk = { oldStart: parseInt(header[1], 10), lines: [] };
+            oldLeft = header[2] !== undefined ? parseInt(header[2], 10) : 1;
+            newLeft = header[3] !== undefined ? parseInt(header[3], 10) : 1;
+            current.hunks.push(hunk);
+        }
+    }
+
+    if (files.length === 0) throw new ToolError('No file headers (---/+++) found in patch.');
+    return files;
+}
+
+/**
+ * Applies parsed hunks to a file's text. A hunk that isn't at its stated line is
+ * looked for nearby; one whose context can't be found throws ToolError.
+ */
+export function applyHunks(original: string, hunks: Hunk[], file: string): string {
+    const lines = original.length > 0 ? original.split('\n') : [];
+    let offset = 0;
+
+    for (const hunk of hunks) {
+        const before = hunk.lines.filter(l => !l.startsWith('+')).map(l => l.slice(1));
+        const after = hunk.lines.filter(l => !l.startsWith('-')).map(l => l.slice(1));
+
+        const matchesAt = (pos: number) =>
+            pos >= 0 && pos + before.length <= lines.length && before.every((l, k) => lines[pos + k] === l);
+
+        // Try the stated position first, then search outwards in case earlier edits shifted things
+        const expected = Math.max(hunk.oldStart - 1 + offset, 0);
+        let pos = -1;
+        for (let delta = 0; delta <= lines.length; delta++) {
+            if (matchesAt(expected - delta)) { pos = expected - delta; break; }
+            if (matchesAt(expected + delta)) { pos = expected + delta; break; }
+        }
+        if (pos === -1) {
+            throw new ToolError(`Hunk at line ${hunk.oldStart} does not apply to ${file}.`);
+        }
+
+        lines.splice(pos, before.length, ...after);
+        offset += after.length - before.length;
+    }
+
+    return lines.join('\n');
+}
+
+const applyPatchTool: ExecutableTool = {
+    name: 'apply_patch',
+    description: 'Apply a unified diff to one or more files. Supports new files (--- /dev/null) and deletions (+++ /dev/null). Either every file applies or none do.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            patch: { type: 'string', description: 'Unified diff text' },
+        },
+        required: ['patch'],
+    },
+    async run(input, ctx) {
+        if (typeof input.patch !== 'string') throw new ToolError('"patch" must be a string.');
+
+        // Compute every result before writing anything so a bad hunk leaves the tree untouched
+        const writes: { file: string; content: string | null }[] = [];
+        for (const filePatch of parseUnifiedDiff(input.patch)) {
+            const target = filePatch.newPath ?? filePatch.oldPath;
+            if (!target) throw new ToolError('Patch entry has neither an old nor a new path.');
+
+            const file = await resolveWritable(ctx, target);
+            let original = '';
+            if (filePatch.oldPath !== null) {
+                const source = await resolveInside(ctx.cwd, filePatch.oldPath);
+                if (!await fs.pathExists(source)) throw new ToolError(`File not found: ${filePatch.oldPath}`);
+                original = await fs.readFile(source, 'utf-8');
+            } else if (await fs.pathExists(file)) {
+                throw new ToolError(`Cannot create ${target}: file already exists.`);
+            }
+
+            const content = filePatch.newPath === null ? null : applyHunks(original, filePatch.hunks, target);
+            writes.push({ file, content });
+
+            if (filePatch.oldPath && filePatch.newPath && filePatch.oldPath !== filePatch.newPath) {
+                writes.push({ file: await resolveWritable(ctx, filePatch.oldPath), content: null });
+            }
+        }
+
+        const changed: string[] = [];
+        for (const w of writes) {
+            if (w.content === null) {
+                await fs.remove(w.file);
+            } else {
+                await fs.ensureDir(path.dirname(w.file));
+                await fs.writeFile(w.file, w.content);
+            }
+            changed.push(path.relative(ctx.cwd, w.file));
+        }
+
+        return { files: changed };
+    },
+};
+
+/**
+ * Keeps the first `limit` characters of a stream's output and counts the rest, so a
+ * chatty command can't exhaust memory before the result is truncated.
+ */
+class CappedOutput {
+    private text = '';
+    private dropped = 0;
+
+    constructor(private limit: number = MAX_OUTPUT_CHARS) { }
+
+    append(chunk: string) {
+        const room = this.limit - this.text.length;
+        if (room > 0) this.text += chunk.slice(0, room);
+        this.dropped += Math.max(chunk.length - Math.max(room, 0), 0);
+    }
+
+    toString(): string {
+        return this.dropped > 0 ? this.text + `\n... [truncated ${this.dropped} chars]` : this.text;
+    }
+}
+
+/**
+ * Runs a command line through the shell and collects its output. Never rejects;
+ * a non-zero exit or timeout is reported in the result. The shell runs in its own
+ * process group, so a timeout also stops anything the command started.
+ */
+export async function runShellCommand(command: string, cwd: string, timeoutMs: number, signal?: AbortSignal): Promise<{ exit_code: number | null; timed_out: boolean; stdout: string; stderr: string }> {
+    const child = spawn(command, { cwd, shell: true, env: process.env, detached: true });
+    const stdout = new CappedOutput();
+    const stderr = new CappedOutput();
+    child.stdout.setEncoding('utf-8').on('data', (d: string) => stdout.append(d));
+    child.stderr.setEncoding('utf-8').on('data', (d: string) => stderr.append(d));
+
+    const result = await waitForExit(child, timeoutMs, signal);
+    return {
+        exit_code: result.exitCode,
+        timed_out: result.timedOut,
+        stdout: stdout.toString(),
+        stderr: result.error ? result.error.message : stderr.toString(),
+    };
+}
+
+const runShellTool: ExecutableTool = {
+    name: 'run_shell',
+    description: 'Run a shell command in the working directory and return its exit code and output.',
+    inputSchema: {
+        type: 'object',
+        properties: {
+            command: { type: 'string', description: 'Command line to execute' },
+            timeout: { type: 'integer', description: 'Timeout in seconds (default 60)', minimum: 1 },
+        },
+        required: ['command'],
+    },
+    async run(input, ctx) {
+        if (typeof input.command !== 'string' || !input.command.trim()) {
+            throw new ToolError('A non-empty "command" is required.');
+        }
+
+        return runShellCommand(input.command, ctx.cwd, (input.timeout || 60) * 1000, ctx.signal);
+    },
+};
+
+export const BUILTIN_TOOLS: ExecutableTool[] = [
+    readFileTool,
+    listFilesTool,
+    searchFilesTool,
+    writeFileTool,
+    applyPatchTool,
+    runShellTool,
+];
+
+/**
+ * Capability names used in agent frontmatter, mapped to the built-in tools they grant.
+ * A capability that matches a tool name exactly grants just that tool.
+ */
+export const CAPABILITY_TOOLS: Record<string, string[]> = {
+    read_files: ['read_file', 'list_files'],
+    search_files: ['search_files', 'list_files'],
+    file_search: ['search_files', 'list_files'],
+    write_files: ['write_file', 'apply_patch'],
+    edit_files: ['write_file', 'apply_patch'],
+    terminal_exec: ['run_shell'],
+    shell: ['run_shell'],
+};
+
+/**
+ * Checks `input` against the top level of a tool's schema: required keys and primitive types.
+ * Deeper validation is left to the tool itself.
+ */
+export function validateInput(schema: JSONSchema, input: Record<string, any>): void {
+    for (const key of schema.required || []) {
+        if (input[key] === undefined) {
+            throw new ToolError(`Missing required argument "${key}".`);
+        }
+    }
+
+    for (const [key, prop] of Object.entries(schema.properties || {})) {
+        const value = input[key];
+        if (value === undefined || !prop || typeof prop.type !== 'string') continue;
+
+        const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+        const ok = prop.type === actual
+            || (prop.type === 'integer' && Number.isInteger(value))
+            || (prop.type === 'number' && actual === 'number');
+        if (!ok) {
+            throw new ToolError(`Argument "${key}" must be of type ${prop.type}.`);
+        }
+    }
+}
+
+export function isBuiltinCapability(capability: string): boolean {
+    return Object.hasOwn(CAPABILITY_TOOLS, capability) || BUILTIN_TOOLS.some(t => t.name === capability);
+}
+
+/**
+ * Returns the built-in tools granted by a list of capabilities, without duplicates.
+ */
+export function resolveBuiltinTools(capabilities: string[]): ExecutableTool[] {
+    const names = new Set<string>();
+    for (const cap of capabilities) {
+        const granted = Object.hasOwn(CAPABILITY_TOOLS, cap) ? CAPABILITY_TOOLS[cap] : [cap];
+        granted.forEach(n => names.add(n));
+    }
+    return BUILTIN_TOOLS.filter(t => names.has(t.name));
+}
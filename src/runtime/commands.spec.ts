@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { CommandConfig, CommandDefinition, CommandError, renderCommand, validateCommand } from './commands';
+
+function command(body: string, config: CommandConfig = {}): CommandDefinition {
+    return { name: 'review', path: 'docs/ai/commands/review.md', config, body };
+}
+
+describe('renderCommand', () => {
+    it('fills $ARGUMENTS and positional placeholders', () => {
+        expect(renderCommand(command('Review $ARGUMENTS'), ['src/a.ts', 'src/b.ts'])).toBe('Review src/a.ts src/b.ts');
+        expect(renderCommand(command('Compare $2 with $1'), ['old', 'new'])).toBe('Compare new with old');
+    });
+
+    it('leaves missing positional arguments empty', () => {
+        expect(renderCommand(command('[$1][$3]'), ['a'])).toBe('[a][]');
+    });
+
+    it('does not read $10 as $1', () => {
+        expect(renderCommand(command('$10'), ['a'])).toBe('$10');
+    });
+
+    it('fills named arguments in declaration order, with defaults', () => {
+        const cmd = command('Review {{file}} for {{ focus }}', {
+            arguments: [{ name: 'file', required: true }, { name: 'focus', default: 'bugs' }],
+        });
+        expect(renderCommand(cmd, ['src/a.ts'])).toBe('Review src/a.ts for bugs');
+        expect(renderCommand(cmd, ['src/a.ts', 'style'])).toBe('Review src/a.ts for style');
+    });
+
+    it('throws when a required argument is missing', () => {
+        const cmd = command('{{file}}', { arguments: [{ name: 'file', required: true, description: 'File to review' }] });
+        expect(() => renderCommand(cmd, [])).toThrow(CommandError);
+        expect(() => renderCommand(cmd, [])).toThrow("Missing argument 'file' for review (File to review)");
+    });
+
+    it('leaves undeclared placeholders alone', () => {
+        expect(renderCommand(command('{{unknown}}'), ['a'])).toBe('{{unknown}}');
+        expect(renderCommand(command('{{toString}} {{constructor}}'), ['a'])).toBe('{{toString}} {{constructor}}');
+    });
+
+    it('does not expand placeholders inside argument values', () => {
+        expect(renderCommand(command('$1 $2'), ['$2', 'x'])).toBe('$2 x');
+    });
+});
+
+describe('validateCommand', () => {
+    it('accepts a command without arguments or with named entries', () => {
+        expect(() => validateCommand(command(''))).not.toThrow();
+        expect(() => validateCommand(command('', { arguments: [{ name: 'file' }] }))).not.toThrow();
+    });
+
+    it('rejects arguments that are not a list', () => {
+        const cmd = command('', { arguments: 'file' as any });
+        expect(() => validateCommand(cmd)).toThrow(/'arguments' must be a list/);
+    });
+
+    it('rejects entries without a name', () => {
+        const cmd = command('', { arguments: ['file'] as any });
+        expect(() => validateCommand(cmd)).toThrow(`arguments[0] must be an entry with a 'name', got "file"`);
+    });
+});
@@ -0,0 +1,125 @@
+import fs from 'fs-extra';
+import path from 'path';
+import matter from 'gray-matter';
+
+export const COMMANDS_DIR = 'docs/ai/commands';
+
+/**
+ * A named placeholder, filled from the positional arguments in declaration order.
+ */
+export interface CommandArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+    default?: string;
+}
+
+/**
+ * Frontmatter of a command file. `description`, `argument-hint`, `allowed-tools`
+ * and `model` are the keys Claude Code reads; `agent` and `arguments` are ours.
+ */
+export interface CommandConfig {
+    description?: string;
+    'argument-hint'?: string;
+    agent?: string;         // Agent that runs the command
+    arguments?: CommandArgument[];
+    [key: string]: unknown;
+}
+
+export interface CommandDefinition {
+    name: string;           // Path under docs/ai/commands without .md, e.g. `review` or `git/commit`
+    path: string;
+    config: CommandConfig;
+    body: string;           // Markdown after the frontmatter: the goal template
+}
+
+export class CommandError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CommandError';
+    }
+}
+
+async function commandFiles(dir: string): Promise<string[]> {
+    if (!await fs.pathExists(dir)) return [];
+    const files: string[] = [];
+    for (const entry of (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await commandFiles(full));
+        } else if (entry.name.endsWith('.md')) {
+            files.push(full);
+        }
+    }
+    return files;
+}
+
+/**
+ * Throws CommandError unless the frontmatter `arguments` is a list of entries with a
+ * `name` each. `lint` reports the same problems without throwing.
+ */
+export function validateCommand(command: CommandDefinition): void {
+    const args: unknown = command.config.arguments;
+    if (args === undefined) return;
+    if (!Array.isArray(args)) {
+        throw new CommandError(`Invalid command ${command.name}: 'arguments' must be a list of { name, description?, required?, default? } entries`);
+    }
+    args.forEach((arg, i) => {
+        if (typeof arg?.name !== 'string' || arg.name.trim() === '') {
+            throw new CommandError(`Invalid command ${command.name}: arguments[${i}] must be an entry with a 'name', got ${JSON.stringify(arg)}`);
+        }
+    });
+}
+
+export async function loadCommandFile(projectRoot: string, file: string): Promise<CommandDefinition> {
+    const parsed = matter(await fs.readFile(file, 'utf-8'));
+    const name = path.relative(path.join(projectRoot, COMMANDS_DIR), file).replace(/\.md$/, '').split(path.sep).join('/');
+    return { name, path: file, config: (parsed.data || {}) as CommandConfig, body: parsed.content.trim() };
+}
+
+/**
+ * Every command in docs/ai/commands, subdirectories included, sorted by name.
+ */
+export async function listCommands(projectRoot: string): Promise<CommandDefinition[]> {
+    const files = await commandFiles(path.join(projectRoot, COMMANDS_DIR));
+    const commands = await Promise.all(files.map(f => loadCommandFile(projectRoot, f)));
+    return commands.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Loads `docs/ai/commands/<name>.md`. A leading `/` is ignored, so `/review` works too.
+ * Throws CommandError when it is missing or its `arguments` are malformed.
+ */
+export async function loadCommand(projectRoot: string, name: string): Promise<CommandDefinition> {
+    const relative = name.replace(/^\/+/, '');
+    const file = path.join(projectRoot, COMMANDS_DIR, `${relative}.md`);
+    if (relative.split('/').includes('..') || !await fs.pathExists(file)) {
+        throw new CommandError(`Command not found: ${name} (looked in ${COMMANDS_DIR})`);
+    }
+    const command = await loadCommandFile(projectRoot, file);
+    validateCommand(command);
+    return command;
+}
+
+/**
+ * Fills the command body in: `$ARGUMENTS` becomes all arguments joined by spaces,
+ * `$1`..`$9` single arguments, and `{{name}}` the declared argument at that position
+ * (or its default). Throws CommandError when a required argument is missing.
+ */
+export function renderCommand(command: CommandDefinition, args: string[]): string {
+    const values: Record<string, string> = {};
+    (command.config.arguments || []).forEach((arg, i) => {
+        const value = args[i] ?? arg.default;
+        if (value === undefined && arg.required) {
+            throw new CommandError(`Missing argument '${arg.name}' for ${command.name}${arg.description ? ` (${arg.description})` : ''}`);
+        }
+        values[arg.name] = value === undefined ? '' : String(value);
+    });
+
+    // One pass, so placeholders inside argument values are left alone
+    return command.body.replace(/\$ARGUMENTS\b|\$([1-9])(?!\d)|\{\{\s*([\w-]+)\s*\}\}/g, (m, n, key) => {
+        if (n) return args[Number(n) - 1] ?? '';
+        if (key) return Object.hasOwn(values, key) ? values[key] : m;
+        return args.join(' ');
+    });
+}
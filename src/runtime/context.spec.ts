@@ -0,0 +1,81 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TokenCounter } from '../utils/tokenizer';
+import { AgentDefinition } from './agent';
+import { assembleContext } from './context';
+
+// One token per character keeps the budget arithmetic readable
+const counter = () => new TokenCounter({ name: 'chars', count: text => text.length });
+
+const agent: AgentDefinition = { name: 'dev', path: 'docs/ai/agents/dev.md', config: {}, body: 'Agent instructions' };
+
+describe('assembleContext', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-context-'));
+        await fs.outputFile(path.join(root, 'README.md'), 'readme line\n'.repeat(20));
+        await fs.outputFile(path.join(root, 'src/a.md'), 'a'.repeat(300));
+        await fs.outputFile(path.join(root, 'src/b.md'), 'b'.repeat(300));
+    });
+
+    afterEach(async () => {
+        await fs.remove(root);
+    });
+
+    const assemble = (maxTokens: number) => assembleContext({
+        root,
+        agent,
+        files: ['README.md'],
+        directories: ['src'],
+        maxTokens,
+        counter: counter(),
+    });
+
+    it('keeps everything that fits the budget', async () => {
+        const context = await assemble(100000);
+        expect(context.sections.map(s => [s.kind, s.source])).toEqual([
+            ['agent', 'dev'],
+            ['file', 'README.md'],
+            ['directory', 'src/a.md'],
+            ['directory', 'src/b.md'],
+        ]);
+        expect(context.sections.some(s => s.truncated || s.omitted)).toBe(false);
+        expect(context.totalTokens).toBe(context.system.length);
+    });
+
+    it('drops directory files first, the last one first', async () => {
+        const full = await assemble(100000);
+        const lastFile = full.sections[3];
+
+        const context = await assemble(full.totalTokens - lastFile.tokens);
+        expect(context.sections[3].omitted).toBe(true);
+        expect(context.sections[2].omitted).toBe(false);
+        expect(context.system).not.toContain('src/b.md');
+        expect(context.totalTokens).toBeLessThanOrEqual(context.budget);
+    });
+
+    it('truncates a section by whole lines when part of it fits', async () => {
+        const context = await assemble(250);
+        const readme = context.sections.find(s => s.source === 'README.md')!;
+
+        expect(context.sections.filter(s => s.kind === 'directory').every(s => s.omitted)).toBe(true);
+        expect(readme.truncated).toBe(true);
+        expect(readme.tokens).toBeLessThan(readme.originalTokens);
+        expect(readme.body).toMatch(/^(readme line\n)+\n\[\.\.\. truncated ~\d+ tokens to fit the context budget\]$/);
+        expect(context.totalTokens).toBeLessThanOrEqual(250);
+        expect(context.system).toContain('Agent instructions');
+    });
+
+    it('is deterministic for the same input and budget', async () => {
+        const [first, second] = [await assemble(250), await assemble(250)];
+        expect(second.system).toBe(first.system);
+    });
+
+    it('reports referenced files that do not exist', async () => {
+        const context = await assembleContext({ root, agent, files: ['missing.md'], directories: ['nowhere'], counter: counter() });
+        expect(context.missing).toEqual(['missing.md', 'nowhere']);
+    });
+});
@@ -0,0 +1,323 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { TokenCounter, resolveTokenizer } from '../utils/tokenizer';
+import { matchesAny } from '../utils/glob';
+import { AgentDefinition, ContextDirectory, ResolvedAgent } from './agent';
+import { ToolDefinition, ToolLoader } from './tools';
+import { isBuiltinCapability } from './builtins';
+import { SkillDefinition, listSkills, renderSkillIndex } from './skills';
+
+export type SectionKind = 'agent' | 'inherited' | 'index' | 'file' | 'directory' | 'task' | 'tool' | 'skills';
+
+export interface ContextSection {
+    kind: SectionKind;
+    source: string;          // File path or tool/agent name
+    title: string;           // Heading rendered above the content
+    body: string;
+    fence?: string;          // Language for a code fence; markdown is included as-is
+    tokens: number;          // After truncation
+    originalTokens: number;
+    truncated: boolean;
+    omitted: boolean;        // Dropped entirely to fit the budget
+}
+
+export interface AssembleOptions {
+    root: string;                         // Relative paths resolve against this (the worktree when isolated)
+    agent: AgentDefinition;               // Own body only; ancestors go in `inherited`
+    inherited?: AgentDefinition[];        // Ancestors, root first
+    indexFile?: string;
+    files?: string[];
+    directories?: ContextDirectory[];
+    taskFiles?: string[];
+    tools?: ToolDefinition[];
+    skills?: SkillDefinition[];           // Listed by description; loaded with load_skill
+    maxTokens?: number;
+    counter?: TokenCounter;               // Defaults to the default tokenizer, uncached
+}
+
+export interface AssembledContext {
+    system: string;
+    sections: ContextSection[];
+    totalTokens: number;
+    budget: number;
+    tokenizer: string;
+    missing: string[];       // Referenced files or directories that don't exist
+    skills: SkillDefinition[];
+}
+
+export const DEFAULT_CONTEXT_BUDGET = 100000;
+
+const SEPARATOR = '\n\n---\n\n';
+const MAX_FILE_BYTES = 256 * 1024;
+const DEFAULT_EXCLUDES = ['**/node_modules/**', '**/.git/**'];
+
+// Payload order (parent agents are prepended to the agent body). Truncation works through
+// TRIM_ORDER: bulk directory contents go first, the agent's own instructions last.
+const SECTION_ORDER: SectionKind[] = ['inherited', 'agent', 'index', 'file', 'directory', 'task', 'tool', 'skills'];
+const TRIM_ORDER: SectionKind[] = ['directory', 'index', 'file', 'task', 'tool', 'skills', 'inherited', 'agent'];
+
+function render(section: Pick<ContextSection, 'title' | 'body' | 'fence'>): string {
+    const body = section.fence !== undefined ? '```' + section.fence + '\n' + section.body + '\n```' : section.body;
+    return `${section.title}\n\n${body}`;
+}
+
+function makeSection(counter: TokenCounter, kind: SectionKind, source: string, title: string, body: string, fence?: string): ContextSection {
+    const tokens = counter.countCached(render({ title, body, fence }));
+    return { kind, source, title, body, fence, tokens, originalTokens: tokens, truncated: false, omitted: false };
+}
+
+/**
+ * Fenced for code, raw for markdown and plain text.
+ */
+function fenceFor(filePath: string): string | undefined {
+    const ext = path.extname(filePath).slice(1).toLowerCase();
+    return ['md', 'mdc', 'markdown', 'txt', ''].includes(ext) ? undefined : ext;
+}
+
+function relativeTo(root: string, filePath: string): string {
+    const rel = path.relative(root, filePath);
+    return rel && !rel.startsWith('..') ? rel.split(path.sep).join('/') : filePath;
+}
+
+async function readTextFile(filePath: string): Promise<string | null> {
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile() || stat.size > MAX_FILE_BYTES) return null;
+    const content = await fs.readFile(filePath, 'utf-8');
+    return content.includes('\u0000') ? null : content; // skip binaries
+}
+
+/**
+ * Lists files under a context directory, sorted, after include/exclude filtering.
+ */
+async function expandDirectory(root: string, entry: ContextDirectory): Promise<string[] | null> {
+    const spec = typeof entry === 'string' ? { path: entry } : entry;
+    const dir = path.resolve(root, spec.path);
+    if (!await fs.pathExists(dir) || !(await fs.stat(dir)).isDirectory()) return null;
+
+    const excludes = [...DEFAULT_EXCLUDES, ...(spec.exclude || [])];
+    const files: string[] = [];
+
+    const walk = async (current: string) => {
+        const entries = await fs.readdir(current, { withFileTypes: true });
+        entries.sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+        for (const e of entries) {
+            const abs = path.join(current, e.name);
+            const rel = relativeTo(root, abs);
+            if (e.isDirectory()) {
+                if (!matchesAny(rel + '/', excludes)) await walk(abs);
+            } else if (e.isFile()) {
+                if (matchesAny(rel, excludes)) continue;
+                if (spec.include && spec.include.length > 0 && !matchesAny(rel, spec.include)) continue;
+                files.push(abs);
+            }
+        }
+    };
+
+    await walk(dir);
+    return files;
+}
+
+/**
+ * Shortens a section to at most `maxTokens` by dropping trailing lines. Deterministic:
+ * the same input and budget always produce the same cut.
+ */
+function truncateSection(section: ContextSection, maxTokens: number, counter: TokenCounter): void {
+    const lines = section.body.split('\n');
+    // Each probe is a new prefix, so counting skips the cache
+    const measure = (count: number) => {
+        const omitted = section.originalTokens - counter.count(lines.slice(0, count).join('\n'));
+        const body = lines.slice(0, count).join('\n') + `\n\n[... truncated ~${omitted} tokens to fit the context budget]`;
+        return { body, tokens: counter.count(render({ ...section, body })) };
+    };
+
+    // Binary search for the largest prefix that fits
+    let lo = 0;
+    let hi = lines.length - 1;
+    let best: { body: string; tokens: number } | null = null;
+    while (lo <= hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        const candidate = measure(mid);
+        if (candidate.tokens <= maxTokens) {
+            best = mid > 0 ? candidate : null;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+
+    // A heading with nothing under it isn't worth keeping
+    if (!best) {
+        section.omitted = true;
+        section.tokens = 0;
+        return;
+    }
+
+    section.body = best.body;
+    section.tokens = best.tokens;
+    section.truncated = true;
+}
+
+/**
+ * Builds the system prompt from the agent definition and everything it references,
+ * in SECTION_ORDER, trimmed to the token budget.
+ */
+export async function assembleContext(options: AssembleOptions): Promise<AssembledContext> {
+    const { root, agent } = options;
+    const sections: ContextSection[] = [];
+    const missing: string[] = [];
+    const included = new Set<string>();
+    const counter = options.counter || new TokenCounter(resolveTokenizer());
+    const addSection = (kind: SectionKind, source: string, title: string, body: string, fence?: string) =>
+        sections.push(makeSection(counter, kind, source, title, body, fence));
+
+    const addFile = async (kind: SectionKind, file: string, title: (rel: string) => string) => {
+        const abs = path.isAbsolute(file) ? file : path.resolve(root, file);
+        if (included.has(abs)) return;
+        if (!await fs.pathExists(abs)) {
+            missing.push(file);
+            return;
+        }
+        const content = await readTextFile(abs);
+        if (content === null) return;
+
+        included.add(abs);
+        const rel = relativeTo(root, abs);
+        addSection(kind, rel, title(rel), content.trimEnd(), fenceFor(abs));
+    };
+
+    for (const parent of options.inherited || []) {
+        if (parent.body) {
+            addSection('inherited', parent.name, `# Inherited Agent: ${parent.config.name || parent.name}`, parent.body);
+        }
+    }
+
+    if (agent.body) {
+        addSection('agent', agent.name, `# Agent: ${agent.config.name || agent.name}`, agent.body);
+    }
+
+    if (options.indexFile) {
+        await addFile('index', options.indexFile, () => '# Project Index');
+    }
+
+    for (const file of options.files || []) {
+        await addFile('file', file, rel => `# File: ${rel}`);
+    }
+
+    for (const entry of options.directories || []) {
+        const files = await expandDirectory(root, entry);
+        if (files === null) {
+            missing.push(typeof entry === 'string' ? entry : entry.path);
+            continue;
+        }
+        for (const file of files) {
+            await addFile('directory', file, rel => `# File: ${rel}`);
+        }
+    }
+
+    for (const file of options.taskFiles || []) {
+        await addFile('task', file, rel => `# Task File: ${rel}`);
+    }
+
+    for (const tool of options.tools || []) {
+        if (tool.content) {
+            addSection('tool', tool.name, `# Tool: ${tool.name}`, tool.content);
+        }
+    }
+
+    const skills = options.skills || [];
+    if (skills.length > 0) {
+        addSection('skills', 'docs/ai/skills', '# Skills', renderSkillIndex(skills));
+    }
+
+    // Stable sort keeps insertion order within a kind
+    sections.sort((a, b) => SECTION_ORDER.indexOf(a.kind) - SECTION_ORDER.indexOf(b.kind));
+
+    // Fit the budget
+    const budget = options.maxTokens || DEFAULT_CONTEXT_BUDGET;
+    const separatorTokens = counter.count(SEPARATOR);
+    const total = () => {
+        const kept = sections.filter(s => !s.omitted);
+        return kept.reduce((sum, s) => sum + s.tokens, 0) + Math.max(kept.length - 1, 0) * separatorTokens;
+    };
+
+    for (const kind of TRIM_ORDER) {
+        const candidates = sections.filter(s => s.kind === kind).reverse();
+        for (const section of candidates) {
+            const excess = total() - budget;
+            if (excess <= 0) break;
+
+            if (section.tokens <= excess) {
+                section.omitted = true;
+                section.tokens = 0;
+            } else {
+                truncateSection(section, section.tokens - excess, counter);
+            }
+        }
+    }
+
+    const kept = sections.filter(s => !s.omitted);
+    return {
+        system: kept.map(render).join(SEPARATOR),
+        sections,
+        totalTokens: total(),
+        budget,
+        tokenizer: counter.tokenizer.name,
+        missing,
+        skills,
+    };
+}
+
+export interface AgentContextOptions {
+    projectRoot: string;    // Where docs/ai lives in the main checkout
+    runtimeCwd: string;     // Where the agent runs (the worktree when isolated)
+    agent: ResolvedAgent;
+    taskFiles?: string[];
+    maxTokens?: number;
+}
+
+/**
+ * Collects everything an agent run puts in its system prompt (inherited agents, project
+ * index, context files and directories, task files, tool docs, the skill list) and
+ * assembles it.
+ */
+export async function buildAgentContext(options: AgentContextOptions): Promise<AssembledContext> {
+    const { projectRoot, runtimeCwd, agent } = options;
+    const config = agent.config;
+
+    // The index may be uncommitted, so fall back to the main checkout's copy
+    let indexFile: string | undefined;
+    for (const root of [runtimeCwd, projectRoot]) {
+        const candidate = path.join(root, 'docs/ai/project-structure.md');
+        if (!indexFile && await fs.pathExists(candidate)) indexFile = candidate;
+    }
+
+    // Built-in tools are described by their schemas; only file-based tools contribute docs
+    const capabilities = (config.capabilities || []).filter(c => !isBuiltinCapability(c));
+    const tools = capabilities.length > 0 ? await new ToolLoader(runtimeCwd).loadTools(capabilities) : [];
+
+    // Each ancestor gets its own section; the agent section carries only its own body
+    const own = agent.chain[agent.chain.length - 1];
+
+    // Counted with the provider model's vocabulary unless the agent names a tokenizer
+    const counter = await new TokenCounter(
+        resolveTokenizer({ tokenizer: config.context?.tokenizer, model: config.provider?.model }),
+        projectRoot
+    ).load();
+
+    const context = await assembleContext({
+        root: runtimeCwd,
+        agent: { ...own, config },
+        inherited: agent.chain.slice(0, -1),
+        indexFile,
+        files: config.context?.files || [],
+        directories: config.context?.directories || [],
+        taskFiles: options.taskFiles || [],
+        tools,
+        skills: await listSkills(projectRoot),
+        maxTokens: options.maxTokens || config.context?.max_tokens,
+        counter,
+    });
+    await counter.save();
+    return context;
+}
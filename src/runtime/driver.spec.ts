@@ -0,0 +1,214 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DriverConfig, LLMDriver, RunLimits } from './driver';
+import { ModelTurn, ToolResult, registerProvider } from './providers';
+import { AgentSpawner } from './spawn';
+import { HookRunner } from './hooks';
+import { SessionRecorder, readSession } from './session';
+
+let providers = 0;
+
+/**
+ * Registers a provider whose turns come from `next` and returns its name.
+ */
+function scriptedProvider(next: (toolResults: ToolResult[], signal?: AbortSignal) => Promise<ModelTurn>): string {
+    const name = `scripted-driver-test-${++providers}`;
+    registerProvider({ name, createSession: async () => ({ send: next }) });
+    return name;
+}
+
+const toolTurn = (usage?: ModelTurn['usage']): ModelTurn =>
+    ({ text: 'Working.', toolCalls: [{ id: 'c', name: 'list_files', input: {} }], done: false, usage });
+
+describe('LLMDriver limits', () => {
+    let cwd: string;
+
+    beforeEach(async () => {
+        cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-driver-'));
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.remove(cwd);
+    });
+
+    const run = (provider: string, limits: DriverConfig['limits']) =>
+        new LLMDriver({ provider, model: 'm', capabilities: ['read_files'], limits }, 'Keep going', cwd).run();
+
+    it('adds up token usage across turns', async () => {
+        const turns = [toolTurn({ inputTokens: 100, outputTokens: 10 }), { text: 'Done.', toolCalls: [], done: true, usage: { inputTokens: 150, outputTokens: 5 } }];
+        const result = await run(scriptedProvider(async () => turns.shift()!), {});
+
+        expect(result).toMatchObject({ status: 'completed', output: 'Done.', turns: 2, usage: { inputTokens: 250, outputTokens: 15 } });
+    });
+
+    it('keeps the usage spent before a provider failure', async () => {
+        const turns = [toolTurn({ inputTokens: 100, outputTokens: 10 })];
+        const provider = scriptedProvider(async () => {
+            const turn = turns.shift();
+            if (!turn) throw new Error('overloaded');
+            return turn;
+        });
+        const driver = new LLMDriver({ provider, model: 'm', capabilities: ['read_files'] }, 'Keep going', cwd);
+
+        await expect(driver.run()).rejects.toThrow('overloaded');
+        expect(driver.progress).toEqual({ usage: { inputTokens: 100, outputTokens: 10 }, turns: 1 });
+    });
+
+    it('stops after max_turns', async () => {
+        const result = await run(scriptedProvider(async () => toolTurn()), { maxTurns: 3 });
+        expect(result).toMatchObject({ status: 'stopped', limit: 'max_turns', turns: 3, output: 'Working.' });
+    });
+
+    it('stops once the input token budget is spent', async () => {
+        const result = await run(scriptedProvider(async () => toolTurn({ inputTokens: 400, outputTokens: 1 })), { maxInputTokens: 1000 });
+        expect(result).toMatchObject({ status: 'stopped', limit: 'max_input_tokens', turns: 3, usage: { inputTokens: 1200, outputTokens: 3 } });
+    });
+
+    it('stops once the output token budget is spent', async () => {
+        const result = await run(scriptedProvider(async () => toolTurn({ inputTokens: 1, outputTokens: 50 })), { maxOutputTokens: 50 });
+        expect(result).toMatchObject({ status: 'stopped', limit: 'max_output_tokens', turns: 1 });
+    });
+
+    it('stops a model turn that outlasts the timeout and aborts its request', async () => {
+        let aborted = false;
+        const hang = scriptedProvider((_results, signal) => new Promise(() => {
+            signal?.addEventListener('abort', () => { aborted = true; });
+        }));
+
+        const started = Date.now();
+        const result = await run(hang, { timeoutMs: 200 });
+
+        expect(result).toMatchObject({ status: 'stopped', limit: 'timeout', turns: 0 });
+        expect(Date.now() - started).toBeLessThan(2000);
+        expect(aborted).toBe(true);
+    });
+
+    it('cancels a running tool when the run times out', async () => {
+        const turns: ModelTurn[] = [
+            { text: 'Waiting.', toolCalls: [{ id: 's', name: 'run_shell', input: { command: 'echo $$ > pid; sleep 30' } }], done: false },
+        ];
+        const provider = scriptedProvider(async () => turns.shift() || { text: 'Done.', toolCalls: [], done: true });
+
+        const started = Date.now();
+        const result = await new LLMDriver({ provider, model: 'm', capabilities: ['run_shell'], limits: { timeoutMs: 300 } }, 'Wait', cwd).run();
+
+        expect(result).toMatchObject({ status: 'stopped', limit: 'timeout', turns: 1 });
+        expect(Date.now() - started).toBeLessThan(2000);
+        // The shell's process group was killed with the run
+        const pid = Number(await fs.readFile(path.join(cwd, 'pid'), 'utf-8'));
+        await new Promise(r => setTimeout(r, 200));
+        expect(() => process.kill(pid, 0)).toThrow();
+    });
+});
+
+describe('LLMDriver spawn_agent', () => {
+    let cwd: string;
+
+    beforeEach(async () => {
+        cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-driver-'));
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.remove(cwd);
+    });
+
+    it('passes the remaining budget to the child and counts its usage', async () => {
+        const turns: ModelTurn[] = [
+            { text: 'Delegating.', toolCalls: [{ id: 's', name: 'spawn_agent', input: { agent_name: 'helper', goal: 'Help' } }], done: false, usage: { inputTokens: 100, outputTokens: 10 } },
+            { text: 'Done.', toolCalls: [], done: true, usage: { inputTokens: 50, outputTokens: 5 } },
+        ];
+        const budgets: RunLimits[] = [];
+        const spawner: AgentSpawner = async (_request, budget) => {
+            budgets.push(budget);
+            return { session_id: 'child', agent: 'helper', status: 'completed', summary: 'Helped', turns: 2, usage: { input_tokens: 300, output_tokens: 30 } };
+        };
+
+        const provider = scriptedProvider(async () => turns.shift()!);
+        const limits = { maxTurns: 5, maxInputTokens: 1000 };
+        const result = await new LLMDriver({ provider, model: 'm', capabilities: ['spawn_agent'], limits }, 'Delegate', cwd, '', undefined, spawner).run();
+
+        expect(budgets).toEqual([{ maxTurns: 5, maxInputTokens: 900, maxOutputTokens: undefined, timeoutMs: undefined }]);
+        expect(result.usage).toEqual({ inputTokens: 450, outputTokens: 45 });
+    });
+
+    it('refuses to spawn once the token budget is used up', async () => {
+        const spawn = (id: string) => ({ id, name: 'spawn_agent', input: { agent_name: 'helper', goal: 'Help' } });
+        const turns: ModelTurn[] = [
+            { text: 'Delegating.', toolCalls: [spawn('a'), spawn('b')], done: false, usage: { inputTokens: 100, outputTokens: 0 } },
+        ];
+        const spawner = vi.fn<AgentSpawner>(async () =>
+            ({ session_id: 'child', agent: 'helper', status: 'completed', summary: 'Helped', turns: 1, usage: { input_tokens: 900, output_tokens: 0 } }));
+        const recorder = new SessionRecorder(cwd, '100');
+
+        const provider = scriptedProvider(async () => turns.shift()!);
+        const limits = { maxInputTokens: 1000 };
+        const result = await new LLMDriver({ provider, model: 'm', capabilities: ['spawn_agent'], limits }, 'Delegate', cwd, '', recorder, spawner).run();
+
+        expect(spawner).toHaveBeenCalledTimes(1);
+        expect(result).toMatchObject({ status: 'stopped', limit: 'max_input_tokens' });
+        const refused = (await readSession(recorder.filePath)).filter(e => e.type === 'tool_result' && e.id === 'b');
+        expect(refused).toEqual([expect.objectContaining({ is_error: true, content: 'No budget left for a sub-agent: max_input_tokens is used up.' })]);
+    });
+
+    it('splits the remaining token budget across children dispatched together', async () => {
+        const tasks = ['one', 'two', 'three'].map(goal => ({ agent_name: 'helper', goal }));
+        const turns: ModelTurn[] = [
+            { text: 'Fanning out.', toolCalls: [{ id: 'd', name: 'dispatch', input: { tasks } }], done: false },
+            { text: 'Done.', toolCalls: [], done: true },
+        ];
+        const budgets: (number | undefined)[] = [];
+        const spawner: AgentSpawner = async (request, budget) => {
+            budgets.push(budget.maxInputTokens);
+            await new Promise(r => setTimeout(r, 10));
+            return { session_id: request.goal, agent: 'helper', status: 'completed', summary: '', turns: 1, usage: { input_tokens: 250, output_tokens: 0 } };
+        };
+
+        const provider = scriptedProvider(async () => turns.shift()!);
+        const limits = { maxInputTokens: 900, maxConcurrency: 3 };
+        const result = await new LLMDriver({ provider, model: 'm', capabilities: ['dispatch'], limits }, 'Fan out', cwd, '', undefined, spawner).run();
+
+        expect(budgets).toEqual([300, 300, 300]);
+        expect(result.usage.inputTokens).toBe(750);
+    });
+});
+
+describe('LLMDriver hooks', () => {
+    let cwd: string;
+
+    beforeEach(async () => {
+        cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-driver-'));
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.remove(cwd);
+    });
+
+    it('lets a failing pre-tool hook veto the call', async () => {
+        const results: ToolResult[][] = [];
+        const turns: ModelTurn[] = [
+            { text: 'Writing.', toolCalls: [{ id: 'w', name: 'write_file', input: { path: 'a.txt', content: 'x' } }], done: false },
+            { text: 'Gave up.', toolCalls: [], done: true },
+        ];
+        const provider = scriptedProvider(async toolResults => {
+            results.push(toolResults);
+            return turns.shift()!;
+        });
+        const hooks = new HookRunner(
+            [{ event: 'pre-tool', name: 'guard', command: 'echo "frozen" >&2; exit 1', shell: true, tools: ['write_file'], timeout: 5 }],
+            { sessionId: '100', agent: 'dev', goal: 'Write', cwd, projectRoot: cwd }
+        );
+
+        await new LLMDriver({ provider, model: 'm', capabilities: ['write_files'], hooks }, 'Write', cwd).run();
+
+        expect(results[1]).toEqual([{ id: 'w', name: 'write_file', content: "Blocked by pre-tool hook 'guard': frozen", isError: true }]);
+        expect(await fs.pathExists(path.join(cwd, 'a.txt'))).toBe(false);
+    });
+});
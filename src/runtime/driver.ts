@@ -1,33 +1,143 @@
 import chalk from 'chalk';
 import { ToolLoader, ToolDefinition } from './tools';
+import { resolveProvider, ChatSession, ToolResult } from './providers';
+import { SessionRecorder } from './session';
+import { PermissionGate } from './policy';
+import { HookRunner } from './hooks';
+import { LOAD_SKILL_TOOL, SkillDefinition, createLoadSkillTool } from './skills';
+import { ExecutableTool, ToolError, isBuiltinCapability, resolveBuiltinTools, validateInput } from './builtins';
+import {
+    AgentSpawner, DEFAULT_CONCURRENCY, DISPATCH_CAPABILITY, SPAWN_CAPABILITY, SpawnRequest,
+    createDispatchTool, createSpawnTool, runDispatch,
+} from './spawn';
 
 export interface DriverConfig {
     provider: string;
     model: string;
     capabilities?: string[]; // Added capabilities to config
+    baseUrl?: string;        // Override the provider endpoint (e.g. a local stub server)
+    apiKeyEnv?: string;      // Name of the env var holding the API key
+    maxTokens?: number;      // Max output tokens per model turn
+    providerModule?: string; // Project-local module implementing the provider
+    replayFrom?: string;     // Transcript path for the replay provider
+    mockScript?: string;     // Fixture path for the mock provider
+    limits?: RunLimits;
+    permissions?: PermissionGate; // Tool policy; every call is allowed without one
+    readonly?: string[];          // Globs write tools refuse, on top of the built-in protected paths
+    hooks?: HookRunner;           // pre-tool and post-tool hooks
+    skills?: SkillDefinition[];   // Adds load_skill when non-empty
+    signal?: AbortSignal;         // Stops the run when aborted (a sub-agent gets its parent's)
 }
 
+/**
+ * Execution guards for a run. Token budgets are cumulative across all turns.
+ */
+export interface RunLimits {
+    maxTurns?: number;
+    maxInputTokens?: number;
+    maxOutputTokens?: number;
+    timeoutMs?: number; // Wall-clock limit for the whole run
+    maxConcurrency?: number; // Sub-agents dispatch runs at once
+}
+
+export type LimitName = 'max_turns' | 'max_input_tokens' | 'max_output_tokens' | 'timeout';
+
+export interface DriverResult {
+    status: 'completed' | 'stopped'; // 'stopped' means a limit was hit; see `limit`
+    output: string;
+    turns: number;
+    divergences: string[]; // Replay mismatches; empty for live providers
+    usage: { inputTokens: number; outputTokens: number; };
+    limit?: LimitName;
+}
+
+// Hard stop so a misbehaving model can't loop forever when no max_turns is set
+const DEFAULT_MAX_TURNS = 25;
+
+const TIMED_OUT = Symbol('timeout');
+
 export class LLMDriver {
     private config: DriverConfig;
     private goal: string;
     private cwd: string;
     private toolLoader: ToolLoader;
     private activeTools: ToolDefinition[] = [];
+    private executableTools: ExecutableTool[] = [];
+
+    private system: string;
+    private recorder?: SessionRecorder;
+    private spawner?: AgentSpawner;
+
+    // Loop state, shared with spawn_agent so children draw on the same budget
+    private usage = { inputTokens: 0, outputTokens: 0 };
+    private reserved = { inputTokens: 0, outputTokens: 0 }; // Token budgets handed to running sub-agents
+    private deadline?: number;
+    private turn = 0;
 
-    private contextFiles: string[];
+    // Aborted when the run stops, so running tools and sub-agents stop with it
+    private abort = new AbortController();
+    private children = new Set<Promise<unknown>>();
 
-    constructor(config: DriverConfig, goal: string, cwd: string, contextFiles: string[] = []) {
+    /**
+     * @param system Assembled system prompt (see runtime/context.ts)
+     * @param spawner Runs sub-agents for the spawn_agent capability
+     */
+    constructor(config: DriverConfig, goal: string, cwd: string, system = '', recorder?: SessionRecorder, spawner?: AgentSpawner) {
         this.config = config;
         this.goal = goal;
         this.cwd = cwd;
         this.toolLoader = new ToolLoader(cwd);
-        this.contextFiles = contextFiles;
+        this.system = system;
+        this.recorder = recorder;
+        this.spawner = spawner;
     }
 
-    async run(): Promise<void> {
-        // Load Tools
+    /**
+     * Tokens used (including by sub-agents) and turns taken so far. Still accurate
+     * when run() throws, so a failed run can report what it spent.
+     */
+    get progress(): Pick<DriverResult, 'usage' | 'turns'> {
+        return { usage: { ...this.usage }, turns: this.turn };
+    }
+
+    async run(): Promise<DriverResult> {
+        const startedAt = Date.now();
+        if (this.config.signal?.aborted) {
+            this.abort.abort();
+        } else {
+            this.config.signal?.addEventListener('abort', () => this.abort.abort(), { once: true });
+        }
+
+        // Load Tools: built-ins are always executable; *.tool.md files are executable when their
+        // frontmatter declares an implementation, and are injected as markdown docs either way
         if (this.config.capabilities) {
-            this.activeTools = await this.toolLoader.loadTools(this.config.capabilities);
+            this.executableTools = resolveBuiltinTools(this.config.capabilities);
+            for (const cap of [SPAWN_CAPABILITY, DISPATCH_CAPABILITY].filter(c => this.config.capabilities!.includes(c))) {
+                if (!this.spawner) {
+                    console.warn(chalk.yellow(`[WARN] ${cap} is not available in this runtime`));
+                } else if (cap === SPAWN_CAPABILITY) {
+                    this.executableTools.push(createSpawnTool(request => this.spawnChild(request)));
+                } else {
+                    const maxConcurrency = this.config.limits?.maxConcurrency ?? DEFAULT_CONCURRENCY;
+                    this.executableTools.push(createDispatchTool(request => runDispatch(request, maxConcurrency, (r, share) => this.spawnChild(r, share))));
+                }
+            }
+            const fileCapabilities = this.config.capabilities.filter(c => !isBuiltinCapability(c));
+            // Quiet: the context assembler already reported missing tool docs
+            this.activeTools = await this.toolLoader.loadTools(fileCapabilities, true);
+
+            for (const definition of this.activeTools) {
+                const tool = this.toolLoader.toExecutable(definition);
+                if (!tool) continue;
+                if (this.executableTools.some(t => t.name === tool.name)) {
+                    console.warn(chalk.yellow(`[WARN] Tool '${tool.name}' in ${definition.path} clashes with a built-in; keeping the built-in`));
+                    continue;
+                }
+                this.executableTools.push(tool);
+            }
+        }
+        if (this.config.skills?.length) {
+            this.executableTools.push(createLoadSkillTool(this.config.skills));
         }
 
         console.log(chalk.bold('\n[DRIVER] Starting Execution Loop'));
@@ -35,50 +145,276 @@ export class LLMDriver {
         console.log(`Model:    ${this.config.model}`);
         console.log(`Goal:     ${this.goal}`);
 
-        if (this.activeTools.length > 0) {
+        if (this.executableTools.length > 0 || this.activeTools.length > 0) {
             console.log(chalk.bold('\nLoaded Tools:'));
-            this.activeTools.forEach(t => console.log(`- ${t.name} (${t.path})`));
+            resolveBuiltinTools(this.config.capabilities || []).forEach(t => console.log(`- ${t.name} (built-in)`));
+            this.executableTools
+                .filter(t => t.name === SPAWN_CAPABILITY || t.name === DISPATCH_CAPABILITY || t.name === LOAD_SKILL_TOOL)
+                .forEach(t => console.log(`- ${t.name} (built-in)`));
+            this.activeTools.forEach(t => console.log(`- ${t.name} (${t.path})${t.implementation ? ` [${t.implementation.type}]` : ''}`));
         } else {
             console.log(chalk.yellow('\n[INFO] No tools loaded (check agent capabilities)'));
         }
 
-        if (this.contextFiles.length > 0) {
-            console.log(chalk.bold('\nContext Files:'));
-            this.contextFiles.forEach(f => console.log(`- ${f}`));
+        console.log('------------------------------------------------');
+
+        const provider = resolveProvider(this.config.provider, this.cwd, this.config.providerModule);
+        const session = await provider.createSession({
+            config: this.config,
+            system: this.system,
+            goal: this.goal,
+            tools: this.executableTools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+        });
+
+        return this.runToolLoop(session, startedAt);
+    }
+
+    /**
+     * Executes a tool call requested by the model. Failures are returned to the model
+     * as tool errors rather than aborting the run.
+     */
+    private async executeTool(name: string, input: Record<string, any>): Promise<{ content: string; isError: boolean }> {
+        const tool = this.executableTools.find(t => t.name === name);
+        if (!tool) {
+            return { content: `Tool '${name}' is not available in this runtime.`, isError: true };
         }
 
-        console.log('------------------------------------------------');
+        try {
+            validateInput(tool.inputSchema, input || {});
+            const result = await tool.run(input || {}, { cwd: this.cwd, readonly: this.config.readonly, signal: this.abort.signal });
+            return { content: JSON.stringify(result, null, 2), isError: false };
+        } catch (e: any) {
+            const message = e instanceof ToolError ? e.message : `${name} failed: ${e.message}`;
+            return { content: message, isError: true };
+        }
+    }
 
-        if (this.config.provider === 'mock') {
-            await this.runMockLoop();
-        } else {
-            // Placeholder for real API implementation
-            throw new Error(`Provider '${this.config.provider}' not yet implemented.`);
+    /**
+     * Runs a tool call between its pre-tool and post-tool hooks. A failing pre-tool
+     * hook vetoes the call; a failing post-tool hook turns the result into an error
+     * so the model sees what the hook reported.
+     */
+    private async runTool(name: string, input: Record<string, any>): Promise<{ content: string; isError: boolean }> {
+        const hooks = this.config.hooks;
+        const vetoed = await hooks?.run('pre-tool', { turn: this.turn, tool: name, input: input || {} });
+        if (vetoed) {
+            return { content: `Blocked by pre-tool hook '${vetoed.hook}': ${vetoed.message}`, isError: true };
+        }
+
+        const result = await this.executeTool(name, input);
+        const failed = await hooks?.run('post-tool', {
+            turn: this.turn,
+            tool: name,
+            input: input || {},
+            result: { content: result.content, is_error: result.isError },
+        });
+        if (failed) {
+            return { content: `${result.content}\n\npost-tool hook '${failed.hook}' failed: ${failed.message}`, isError: true };
+        }
+        return result;
+    }
+
+    /**
+     * What is left of this run's limits, handed down to sub-agents. Token budgets
+     * already reserved by running sub-agents are excluded, and what remains is split
+     * `share` ways so children running side by side can't overspend it between them.
+     * A limit that is used up comes back as 0 or less.
+     */
+    private remainingLimits(share = 1): RunLimits {
+        const limits = this.config.limits || {};
+        const left = (max: number | undefined, used: number, reserved: number) =>
+            max === undefined ? undefined : Math.floor((max - used - reserved) / share);
+        return {
+            maxTurns: limits.maxTurns,
+            maxInputTokens: left(limits.maxInputTokens, this.usage.inputTokens, this.reserved.inputTokens),
+            maxOutputTokens: left(limits.maxOutputTokens, this.usage.outputTokens, this.reserved.outputTokens),
+            timeoutMs: this.deadline ? this.deadline - Date.now() : undefined,
+        };
+    }
+
+    /**
+     * Runs a sub-agent for spawn_agent, links it in the transcript and counts its token
+     * usage toward this run's limits. Its token budget stays reserved while it runs.
+     * Refused when a token budget or the time left is used up.
+     * @param share Ways to split the remaining budget (dispatch's free slots)
+     */
+    private async spawnChild(request: SpawnRequest, share = 1) {
+        if (this.abort.signal.aborted) {
+            throw new ToolError('The run was stopped; no more sub-agents can start.');
+        }
+        const budget = this.remainingLimits(share);
+        const spent = ([
+            ['max_input_tokens', budget.maxInputTokens],
+            ['max_output_tokens', budget.maxOutputTokens],
+            ['timeout', budget.timeoutMs],
+        ] as [LimitName, number | undefined][]).filter(([, value]) => value !== undefined && value <= 0).map(([name]) => name);
+        if (spent.length > 0) {
+            throw new ToolError(`No budget left for a sub-agent: ${spent.join(', ')} is used up.`);
+        }
+        const reservation = { inputTokens: budget.maxInputTokens ?? 0, outputTokens: budget.maxOutputTokens ?? 0 };
+        this.reserved.inputTokens += reservation.inputTokens;
+        this.reserved.outputTokens += reservation.outputTokens;
+
+        const child = this.spawner!(request, budget, this.abort.signal);
+        this.children.add(child);
+        const result = await child.finally(() => {
+            this.children.delete(child);
+            this.reserved.inputTokens -= reservation.inputTokens;
+            this.reserved.outputTokens -= reservation.outputTokens;
+        });
+
+        this.usage.inputTokens += result.usage.input_tokens;
+        this.usage.outputTokens += result.usage.output_tokens;
+        await this.recorder?.record({
+            type: 'spawn',
+            turn: this.turn,
+            child_session_id: result.session_id,
+            agent: result.agent,
+            goal: request.goal,
+            status: result.status,
+            branch: result.branch,
+        });
+
+        return result;
+    }
+
+    /**
+     * Resolves with TIMED_OUT if `work` hasn't settled by `deadline`, or once the run is
+     * aborted (by the parent, for a sub-agent). The work is cancelled through the abort
+     * signal it was given; its eventual result is discarded.
+     */
+    private async withDeadline<T>(work: Promise<T>, deadline?: number): Promise<T | typeof TIMED_OUT> {
+        const signal = this.abort.signal;
+        if (!deadline && !this.config.signal) return work;
+
+        const remaining = deadline ? deadline - Date.now() : Infinity;
+        if (remaining <= 0 || signal.aborted) {
+            work.catch(() => { });
+            return TIMED_OUT;
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        let onAbort: (() => void) | undefined;
+        const timeout = new Promise<typeof TIMED_OUT>(resolve => {
+            if (deadline) timer = setTimeout(() => resolve(TIMED_OUT), remaining);
+            onAbort = () => resolve(TIMED_OUT);
+            signal.addEventListener('abort', onAbort, { once: true });
+        });
+
+        try {
+            return await Promise.race([work, timeout]);
+        } finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', onAbort!);
+            work.catch(() => { }); // Don't surface rejections from abandoned work
         }
     }
 
-    private async runMockLoop() {
-        console.log(chalk.gray('(Mock Mode: Simulating reasoning...)'));
-        await new Promise(r => setTimeout(r, 1000));
+    /**
+     * Shared agent loop: asks the model for a turn, executes any requested tools,
+     * feeds the results back and repeats until the model stops calling tools
+     * or a limit is hit.
+     */
+    private async runToolLoop(session: ChatSession, startedAt: number): Promise<DriverResult> {
+        const limits = this.config.limits || {};
+        const maxTurns = limits.maxTurns ?? DEFAULT_MAX_TURNS;
+        const deadline = limits.timeoutMs ? startedAt + limits.timeoutMs : undefined;
+        const usage = this.usage;
+        const divergences: string[] = [];
+        let pending: ToolResult[] = [];
+        let lastText = '';
+        this.deadline = deadline;
+
+        // Aborted sub-agents wind down quickly; waiting for them keeps their token usage
+        // and spawn events inside this run
+        const stop = async (limit: LimitName, detail: string): Promise<DriverResult> => {
+            this.abort.abort();
+            await Promise.allSettled([...this.children]);
+            console.log(chalk.red(`\n[DRIVER] Stopped: ${limit} limit reached (${detail}).`));
+            return { status: 'stopped', output: lastText, turns: this.turn, divergences, usage, limit };
+        };
+        const timeoutDetail = () => this.config.signal?.aborted ? 'the parent run stopped' : `${limits.timeoutMs}ms`;
+
+        while (true) {
+            if (this.turn >= maxTurns) {
+                return stop('max_turns', `${maxTurns} turns`);
+            }
+            if (limits.maxInputTokens && usage.inputTokens >= limits.maxInputTokens) {
+                return stop('max_input_tokens', `${usage.inputTokens} / ${limits.maxInputTokens} tokens`);
+            }
+            if (limits.maxOutputTokens && usage.outputTokens >= limits.maxOutputTokens) {
+                return stop('max_output_tokens', `${usage.outputTokens} / ${limits.maxOutputTokens} tokens`);
+            }
 
-        console.log(chalk.yellow('\n🤖 Agent Thought:'));
-        console.log('I need to check the files to understand the context.');
+            const response = await this.withDeadline(session.send(pending, this.abort.signal), deadline);
+            if (response === TIMED_OUT) {
+                return stop('timeout', timeoutDetail());
+            }
+            this.turn++;
 
-        await new Promise(r => setTimeout(r, 500));
+            if (response.usage) {
+                usage.inputTokens += response.usage.inputTokens;
+                usage.outputTokens += response.usage.outputTokens;
+            }
 
-        console.log(chalk.cyan('\n🛠️  Tool Call: list_files'));
-        console.log('  path: "."');
+            for (const message of response.divergences || []) {
+                console.log(chalk.red(`\n⚠️  Divergence: ${message}`));
+                divergences.push(message);
+                await this.recorder?.record({ type: 'divergence', turn: this.turn, message });
+            }
 
-        await new Promise(r => setTimeout(r, 500));
+            await this.recorder?.record({ type: 'model_turn', turn: this.turn, text: response.text, tool_calls: response.toolCalls });
 
-        console.log(chalk.green('\n✅ Tool Result:'));
-        console.log('  ["src", "package.json", "README.md"]');
+            if (response.text) {
+                lastText = response.text;
+                console.log(chalk.yellow('\n🤖 Agent Thought:'));
+                console.log(response.text);
+            }
 
-        await new Promise(r => setTimeout(r, 1000));
+            if (response.done || response.toolCalls.length === 0) {
+                console.log(chalk.bold('\n[DRIVER] Execution Complete.'));
+                return { status: 'completed', output: response.text, turns: this.turn, divergences, usage };
+            }
 
-        console.log(chalk.yellow('\n🤖 Agent Thought:'));
-        console.log('Okay, I see the structure. I have completed the basic check.');
+            pending = [];
+            for (const call of response.toolCalls) {
+                console.log(chalk.cyan(`\n🛠️  Tool Call: ${call.name}`));
+                console.log(`  ${JSON.stringify(call.input)}`);
 
-        console.log(chalk.bold('\n[DRIVER] Execution Complete.'));
+                const verdict = await this.config.permissions?.authorize(call.name, call.input || {}, this.cwd);
+                if (verdict) {
+                    if (!verdict.allowed) console.log(chalk.red(`  [DENIED] ${verdict.reason}`));
+                    await this.recorder?.record({
+                        type: 'permission',
+                        turn: this.turn,
+                        id: call.id,
+                        tool: call.name,
+                        decision: verdict.decision,
+                        allowed: verdict.allowed,
+                        by: verdict.by,
+                        reason: verdict.reason,
+                    });
+                }
+
+                const result = verdict && !verdict.allowed
+                    ? { content: `Permission denied: ${verdict.reason}`, isError: true }
+                    : await this.withDeadline(this.runTool(call.name, call.input), deadline);
+                if (result === TIMED_OUT) {
+                    return stop('timeout', `${timeoutDetail()}, during ${call.name}`);
+                }
+                console.log(result.isError ? chalk.red('\n❌ Tool Error:') : chalk.green('\n✅ Tool Result:'));
+                console.log(`  ${result.content.length > 2000 ? result.content.slice(0, 2000) + ' ...' : result.content}`);
+
+                pending.push({ id: call.id, name: call.name, ...result });
+                await this.recorder?.record({
+                    type: 'tool_result',
+                    turn: this.turn,
+                    id: call.id,
+                    name: call.name,
+                    content: result.content,
+                    is_error: result.isError,
+                });
+            }
+        }
     }
 }
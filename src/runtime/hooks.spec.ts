@@ -0,0 +1,89 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HOOKS_DIR, HookError, HookRunner, discoverHooks } from './hooks';
+import { SessionRecorder, readSession } from './session';
+
+describe('hooks', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-hooks-'));
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.remove(root);
+    });
+
+    const writeHook = (file: string, content: string) => fs.outputFile(path.join(root, HOOKS_DIR, file), content);
+    const context = () => ({ sessionId: '100', agent: 'dev', goal: 'Ship it', cwd: root, projectRoot: root });
+
+    it('finds hooks by file name, in name order, skipping files that cannot run', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        await writeHook('pre-tool-b.sh', '');
+        await writeHook('pre-tool-a.sh', '');
+        await writeHook('post-run', '');
+        await fs.chmod(path.join(root, HOOKS_DIR, 'post-run'), 0o755);
+        await writeHook('pre-run', '');
+        await writeHook('README.md', '');
+
+        expect((await discoverHooks(root)).map(h => [h.event, h.name, h.shell])).toEqual([
+            ['post-run', 'post-run', false],
+            ['pre-tool', 'pre-tool-a.sh', false],
+            ['pre-tool', 'pre-tool-b.sh', false],
+        ]);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(`Skipping hook ${HOOKS_DIR}/pre-run: not executable`));
+    });
+
+    it('uses only hooks.yaml entries when the manifest exists', async () => {
+        await writeHook('pre-run.sh', '');
+        await writeHook('hooks.yaml', 'pre-tool:\n  - command: ./check.sh\n    tools: [write_file]\n    timeout: 5\n');
+
+        expect(await discoverHooks(root)).toEqual([
+            { event: 'pre-tool', name: './check.sh', command: './check.sh', shell: true, tools: ['write_file'], timeout: 5 },
+        ]);
+
+        await writeHook('hooks.yaml', 'pre-tool: [');
+        await expect(discoverHooks(root)).rejects.toBeInstanceOf(HookError);
+    });
+
+    it('passes the payload on stdin and records each hook', async () => {
+        await writeHook('pre-tool.sh', `cat > "${path.join(root, 'payload.json')}"; echo "$CONTEXTUATE_EVENT ok"`);
+        const recorder = new SessionRecorder(root, '100');
+
+        const failure = await new HookRunner(await discoverHooks(root), context(), recorder).run('pre-tool', { tool: 'read_file' });
+
+        expect(failure).toBeUndefined();
+        expect(await fs.readJson(path.join(root, 'payload.json'))).toMatchObject({ event: 'pre-tool', session_id: '100', goal: 'Ship it', tool: 'read_file' });
+        expect(await readSession(recorder.filePath)).toEqual([
+            expect.objectContaining({ type: 'hook', event: 'pre-tool', hook: 'pre-tool.sh', exit_code: 0, output: 'pre-tool ok', tool: 'read_file' }),
+        ]);
+    });
+
+    it('stops at the first failing hook and skips hooks for other tools', async () => {
+        await writeHook('hooks.yaml', [
+            'pre-tool:',
+            '  - command: exit 0',
+            '    tools: [run_shell]',
+            '  - command: echo "no writes today" >&2; exit 2',
+            '  - command: touch never-runs',
+        ].join('\n'));
+        const runner = new HookRunner(await discoverHooks(root), context());
+
+        expect(await runner.run('pre-tool', { tool: 'write_file' })).toEqual({ hook: 'echo "no writes today" >&2; exit 2', exitCode: 2, message: 'no writes today' });
+        expect(await fs.pathExists(path.join(root, 'never-runs'))).toBe(false);
+    });
+
+    it('fails a hook that outlasts its timeout', async () => {
+        await writeHook('hooks.yaml', 'pre-run:\n  - command: sleep 30 & sleep 30\n    timeout: 1\n');
+
+        const started = Date.now();
+        const failure = await new HookRunner(await discoverHooks(root), context()).run('pre-run');
+
+        expect(failure).toMatchObject({ hook: 'sleep 30 & sleep 30', message: 'timed out after 1s' });
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+});
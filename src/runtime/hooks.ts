@@ -0,0 +1,211 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+import chalk from 'chalk';
+import { spawn } from 'child_process';
+import { waitForExit } from '../utils/process';
+import { SessionRecorder } from './session';
+
+export const HOOKS_DIR = 'docs/ai/hooks';
+export const HOOKS_MANIFEST = 'hooks.yaml';
+
+export const HOOK_EVENTS = ['pre-run', 'post-run', 'pre-tool', 'post-tool'] as const;
+export type HookEvent = typeof HOOK_EVENTS[number];
+
+const DEFAULT_HOOK_TIMEOUT = 60; // Seconds
+const MAX_HOOK_OUTPUT = 4000;
+
+// Script extensions that aren't run directly; anything else must be executable
+const INTERPRETERS: Record<string, string> = { '.js': 'node', '.sh': 'sh', '.py': 'python3' };
+
+/**
+ * One hook: a script found by name in docs/ai/hooks, or a command from hooks.yaml.
+ */
+export interface HookDefinition {
+    event: HookEvent;
+    name: string;       // Shown in output and the transcript
+    command: string;    // Shell command (manifest) or script path (convention)
+    shell: boolean;
+    tools?: string[];   // Tool events only: limit the hook to these tools
+    timeout: number;    // Seconds
+}
+
+/**
+ * Shape of docs/ai/hooks/hooks.yaml.
+ */
+export type HookManifest = Partial<Record<HookEvent, { command: string; tools?: string[]; timeout?: number; }[]>>;
+
+/**
+ * Identifies the run in every hook payload.
+ */
+export interface HookRunContext {
+    sessionId: string;
+    agent: string;
+    goal: string;
+    cwd: string;
+    projectRoot: string;
+}
+
+/**
+ * A hook that exited non-zero (or timed out): for pre-* events, the run or tool
+ * call doesn't go ahead.
+ */
+export interface HookFailure {
+    hook: string;
+    exitCode: number | null;
+    message: string;
+}
+
+export class HookError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HookError';
+    }
+}
+
+/**
+ * Finds hooks for each event. With a hooks.yaml manifest, only its entries are used;
+ * otherwise every file named `<event>` or `<event>-<anything>` (any extension) is a
+ * hook, run in name order.
+ */
+export async function discoverHooks(projectRoot: string): Promise<HookDefinition[]> {
+    const dir = path.join(projectRoot, HOOKS_DIR);
+    if (!await fs.pathExists(dir)) return [];
+
+    const manifestPath = path.join(dir, HOOKS_MANIFEST);
+    if (await fs.pathExists(manifestPath)) {
+        let manifest: HookManifest;
+        try {
+            manifest = (yaml.load(await fs.readFile(manifestPath, 'utf-8')) as HookManifest) || {};
+        } catch (e: any) {
+            throw new HookError(`Invalid ${HOOKS_DIR}/${HOOKS_MANIFEST}: ${e.message.split('\n')[0]}`);
+        }
+        return HOOK_EVENTS.flatMap(event => (manifest[event] || []).map(entry => ({
+            event,
+            name: entry.command,
+            command: entry.command,
+            shell: true,
+            tools: entry.tools,
+            timeout: entry.timeout || DEFAULT_HOOK_TIMEOUT,
+        })));
+    }
+
+    const hooks: HookDefinition[] = [];
+    for (const file of (await fs.readdir(dir)).sort()) {
+        const base = file.slice(0, file.length - path.extname(file).length);
+        const event = HOOK_EVENTS.find(e => base === e || base.startsWith(`${e}-`));
+        const command = path.join(dir, file);
+        if (!event || !(await fs.stat(command)).isFile()) continue;
+
+        // Without a known interpreter the file runs directly, which needs the exec bit
+        if (!INTERPRETERS[path.extname(file)] && !await isExecutable(command)) {
+            console.warn(chalk.yellow(`[WARN] Skipping hook ${HOOKS_DIR}/${file}: not executable (chmod +x it, or use a .sh, .js or .py extension).`));
+            continue;
+        }
+        hooks.push({ event, name: file, command, shell: false, timeout: DEFAULT_HOOK_TIMEOUT });
+    }
+    return hooks;
+}
+
+async function isExecutable(file: string): Promise<boolean> {
+    try {
+        await fs.access(file, fs.constants.X_OK);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Runs a hook in its own process group, so a timeout also stops anything it started.
+ */
+async function runHookProcess(hook: HookDefinition, cwd: string, input: string, env: NodeJS.ProcessEnv): Promise<{ exitCode: number | null; output: string; timedOut: boolean }> {
+    const interpreter = INTERPRETERS[path.extname(hook.command)];
+    const options = { cwd, env, detached: true };
+    const child = hook.shell
+        ? spawn(hook.command, { ...options, shell: true })
+        : interpreter
+            ? spawn(interpreter, [hook.command], options)
+            : spawn(hook.command, [], options);
+
+    // Only the tail is reported, so keep just enough of it
+    let output = '';
+    const collect = (d: string) => { output = (output + d).slice(-MAX_HOOK_OUTPUT); };
+    child.stdout.setEncoding('utf-8').on('data', collect);
+    child.stderr.setEncoding('utf-8').on('data', collect);
+
+    child.stdin.on('error', () => { }); // Hooks that don't read stdin may close it early
+    child.stdin.end(input);
+
+    const result = await waitForExit(child, hook.timeout * 1000);
+    return { exitCode: result.exitCode, output: result.error ? result.error.message : output, timedOut: result.timedOut };
+}
+
+/**
+ * Runs a session's hooks and records each one in the transcript.
+ */
+export class HookRunner {
+    private hooks: HookDefinition[];
+    private context: HookRunContext;
+    private recorder?: SessionRecorder;
+
+    constructor(hooks: HookDefinition[], context: HookRunContext, recorder?: SessionRecorder) {
+        this.hooks = hooks;
+        this.context = context;
+        this.recorder = recorder;
+    }
+
+    /**
+     * Runs the event's hooks in order, with the payload as JSON on stdin. Stops at
+     * the first hook that fails and returns it; undefined when all succeed.
+     */
+    async run(event: HookEvent, payload: Record<string, any> = {}): Promise<HookFailure | undefined> {
+        const hooks = this.hooks.filter(h =>
+            h.event === event && (!h.tools || typeof payload.tool !== 'string' || h.tools.includes(payload.tool))
+        );
+
+        for (const hook of hooks) {
+            const input = JSON.stringify({
+                event,
+                session_id: this.context.sessionId,
+                agent: this.context.agent,
+                goal: this.context.goal,
+                cwd: this.context.cwd,
+                project_root: this.context.projectRoot,
+                ...payload,
+            });
+            const env = {
+                ...process.env,
+                CONTEXTUATE_EVENT: event,
+                CONTEXTUATE_SESSION_ID: this.context.sessionId,
+                CONTEXTUATE_PROJECT_ROOT: this.context.projectRoot,
+            };
+
+            const result = await runHookProcess(hook, this.context.cwd, input, env);
+            const output = result.output.trim().slice(-MAX_HOOK_OUTPUT);
+            const ok = result.exitCode === 0 && !result.timedOut;
+
+            console.log(ok
+                ? chalk.gray(`[HOOK] ${event}: ${hook.name}`)
+                : chalk.red(`[HOOK] ${event}: ${hook.name} failed (${result.timedOut ? `timed out after ${hook.timeout}s` : `exit ${result.exitCode}`})`));
+            await this.recorder?.record({
+                type: 'hook',
+                event,
+                hook: hook.name,
+                exit_code: result.exitCode,
+                timed_out: result.timedOut || undefined,
+                output,
+                tool: payload.tool,
+            });
+
+            if (!ok) {
+                return {
+                    hook: hook.name,
+                    exitCode: result.exitCode,
+                    message: output || (result.timedOut ? `timed out after ${hook.timeout}s` : `exit code ${result.exitCode}`),
+                };
+            }
+        }
+        return undefined;
+    }
+}
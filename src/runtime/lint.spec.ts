@@ -0,0 +1,75 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AGENT_SCHEMA, ProjectLinter, validateSchema } from './lint';
+
+describe('validateSchema', () => {
+    it('reports wrong types and unknown keys with their paths', () => {
+        expect(validateSchema({ capabilities: 'read_files', limits: { timeout: 'soon', max_turn: 3 } }, AGENT_SCHEMA)).toEqual([
+            'capabilities must be a list (got string "read_files")',
+            'limits.timeout must be a duration like 90, "30s" or "10m" (got string "soon")',
+            "unknown key 'limits.max_turn'",
+        ]);
+    });
+
+    it('reports the missing keys of a mapping in an anyOf list', () => {
+        expect(validateSchema({ context: { directories: ['src', { include: ['*.md'] }] } }, AGENT_SCHEMA))
+            .toEqual(['context.directories[1].path is required']);
+    });
+});
+
+describe('ProjectLinter', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-lint-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(root);
+    });
+
+    const write = (file: string, content: string) => fs.outputFile(path.join(root, file), content);
+
+    it('checks agent references', async () => {
+        await write('docs/ai/agents/dev.md', [
+            '---',
+            'name: developer',
+            'capabilities: ["read_files", "deploy"]',
+            'context:',
+            '  files: ["missing.md"]',
+            'inherits: nobody',
+            '---',
+            'Body',
+        ].join('\n'));
+
+        const issues = await new ProjectLinter(root).lint();
+        expect(issues.map(i => [i.severity, i.file, i.message])).toEqual([
+            ['warning', 'docs/ai/agents/dev.md', "name 'developer' does not match the file name 'dev'"],
+            ['error', 'docs/ai/agents/dev.md', "capability 'deploy' does not map to a built-in tool or a *.tool.md file"],
+            ['error', 'docs/ai/agents/dev.md', 'context file not found: missing.md'],
+            ['error', 'docs/ai/agents/dev.md', "Agent 'dev' inherits unknown agent 'nobody'"],
+        ]);
+    });
+
+    it('reports broken relative links and skips code, URLs, placeholders and framework files', async () => {
+        await write('docs/ai/guide.md', [
+            '[ok](other.md) [url](https://example.com) [anchor](#top) [slot](agents/{name}.md)',
+            '`[code](nowhere.md)`',
+            '```',
+            '[fenced](nowhere.md)',
+            '```',
+            '[broken](gone.md#section)',
+            '[percent](100%.md)',
+        ].join('\n'));
+        await write('docs/ai/other.md', '');
+        await write('docs/ai/.contextuate/agents/base.md', '[optional](../../agents/not-installed.md)');
+
+        const issues = await new ProjectLinter(root).lint();
+        expect(issues).toEqual([
+            { severity: 'error', file: 'docs/ai/guide.md', line: 6, message: 'broken link: gone.md#section' },
+            { severity: 'error', file: 'docs/ai/guide.md', line: 7, message: 'malformed link: 100%.md (use %25 for a literal %)' },
+        ]);
+    });
+});
@@ -0,0 +1,554 @@
+import fs from 'fs-extra';
+import path from 'path';
+import matter from 'gray-matter';
+import yaml from 'js-yaml';
+import { parseDuration } from '../utils/duration';
+import { listTokenizers } from '../utils/tokenizer';
+import { AGENTS_DIR, AgentResolutionError, findAgentFile, loadAgentFile, resolveAgent } from './agent';
+import { BUILTIN_TOOLS, isBuiltinCapability } from './builtins';
+import { listProviders } from './providers';
+import { ToolLoader } from './tools';
+import { DISPATCH_CAPABILITY, SPAWN_CAPABILITY } from './spawn';
+import { POLICY_FILE } from './policy';
+import { HOOKS_DIR, HOOKS_MANIFEST, HOOK_EVENTS } from './hooks';
+import { listCommands } from './commands';
+import { SKILLS_DIR, SKILL_FILE } from './skills';
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+    severity: LintSeverity;
+    file: string;    // Relative to the project root
+    line?: number;
+    message: string;
+}
+
+/**
+ * Shape of frontmatter values. `duration` accepts anything parseDuration does.
+ */
+export type FieldSchema =
+    | { type: 'string' | 'integer' | 'boolean' | 'duration' }
+    | { type: 'array'; items: FieldSchema }
+    | { type: 'object'; properties: Record<string, FieldSchema>; required?: string[]; open?: boolean }
+    | { type: 'map'; values: FieldSchema }  // Any keys, each value matching `values`
+    | { type: 'enum'; values: string[] }
+    | { type: 'anyOf'; options: FieldSchema[] };
+
+const STRING: FieldSchema = { type: 'string' };
+const INTEGER: FieldSchema = { type: 'integer' };
+const STRINGS: FieldSchema = { type: 'array', items: STRING };
+const DECISION: FieldSchema = { type: 'enum', values: ['allow', 'ask', 'deny'] };
+
+/**
+ * docs/ai/policy.yaml, and an agent's `permissions` frontmatter.
+ */
+export const PERMISSIONS_SCHEMA: FieldSchema = {
+    type: 'object',
+    properties: {
+        default: DECISION,
+        tools: {
+            type: 'map',
+            values: {
+                type: 'anyOf',
+                options: [
+                    DECISION,
+                    {
+                        type: 'object',
+                        properties: {
+                            default: DECISION,
+                            allow_paths: STRINGS,
+                            deny_paths: STRINGS,
+                            allow_commands: STRINGS,
+                            deny_commands: STRINGS,
+                        },
+                    },
+                ],
+            },
+        },
+        enforce_protected_paths: { type: 'boolean' },
+        allow_shell: { type: 'boolean' },
+    },
+};
+
+const HOOK_ENTRIES: FieldSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: { command: STRING, tools: STRINGS, timeout: INTEGER },
+        required: ['command'],
+    },
+};
+
+/**
+ * docs/ai/hooks/hooks.yaml: a list of commands per event.
+ */
+export const HOOKS_SCHEMA: FieldSchema = {
+    type: 'object',
+    properties: Object.fromEntries(HOOK_EVENTS.map(event => [event, HOOK_ENTRIES])),
+};
+
+export const AGENT_SCHEMA: FieldSchema = {
+    type: 'object',
+    properties: {
+        name: STRING,
+        description: STRING,
+        version: STRING,
+        inherits: STRING,
+        capabilities: STRINGS,
+        context: {
+            type: 'object',
+            properties: {
+                files: STRINGS,
+                directories: {
+                    type: 'array',
+                    items: {
+                        type: 'anyOf',
+                        options: [
+                            STRING,
+                            { type: 'object', properties: { path: STRING, include: STRINGS, exclude: STRINGS }, required: ['path'] },
+                        ],
+                    },
+                },
+                max_tokens: INTEGER,
+                tokenizer: { type: 'enum', values: listTokenizers() },
+            },
+        },
+        env: STRINGS,
+        provider: {
+            type: 'object',
+            properties: {
+                type: STRING,
+                model: STRING,
+                base_url: STRING,
+                api_key_env: STRING,
+                max_tokens: INTEGER,
+                module: STRING,
+                session: STRING,
+                script: STRING,
+            },
+            required: ['type', 'model'],
+        },
+        limits: {
+            type: 'object',
+            properties: {
+                max_turns: INTEGER,
+                max_input_tokens: INTEGER,
+                max_output_tokens: INTEGER,
+                timeout: { type: 'duration' },
+                max_concurrency: INTEGER,
+            },
+        },
+        permissions: PERMISSIONS_SCHEMA,
+        readonly: STRINGS,
+    },
+};
+
+export const TOOL_SCHEMA: FieldSchema = {
+    type: 'object',
+    properties: {
+        name: STRING,
+        description: STRING,
+        input_schema: { type: 'object', properties: {}, open: true },
+        implementation: {
+            type: 'object',
+            properties: {
+                type: STRING,
+                tool: STRING,
+                command: STRING,
+                timeout: INTEGER,
+                module: STRING,
+                export: STRING,
+            },
+            required: ['type'],
+        },
+    },
+};
+
+/**
+ * Command files in docs/ai/commands. Open, since Claude Code reads other keys too.
+ */
+export const COMMAND_SCHEMA: FieldSchema = {
+    type: 'object',
+    properties: {
+        description: STRING,
+        'argument-hint': STRING,
+        agent: STRING,
+        arguments: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: { name: STRING, description: STRING, required: { type: 'boolean' }, default: STRING },
+                required: ['name'],
+            },
+        },
+    },
+    open: true,
+};
+
+/**
+ * SKILL.md frontmatter. Open, since Claude Code reads other keys too.
+ */
+export const SKILL_SCHEMA: FieldSchema = {
+    type: 'object',
+    properties: { name: STRING, description: STRING },
+    open: true,
+};
+
+function describe(value: unknown): string {
+    if (Array.isArray(value)) return 'a list';
+    if (value === null) return 'null';
+    return typeof value === 'object' ? 'a mapping' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Validates a value against a schema, returning one message per problem.
+ * Unknown keys are reported so typos don't fail silently.
+ */
+export function validateSchema(value: unknown, schema: FieldSchema, at = ''): string[] {
+    const where = at || 'frontmatter';
+
+    switch (schema.type) {
+        case 'string':
+            return typeof value === 'string' ? [] : [`${where} must be a string (got ${describe(value)})`];
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [`${where} must be true or false (got ${describe(value)})`];
+        case 'integer':
+            return Number.isInteger(value) && (value as number) > 0 ? [] : [`${where} must be a positive integer (got ${describe(value)})`];
+        case 'duration':
+            try {
+                parseDuration(value as string | number);
+                return [];
+            } catch {
+                return [`${where} must be a duration like 90, "30s" or "10m" (got ${describe(value)})`];
+            }
+        case 'enum':
+            return schema.values.includes(value as string) ? [] : [`${where} must be one of ${schema.values.join(', ')} (got ${describe(value)})`];
+        case 'array':
+            if (!Array.isArray(value)) return [`${where} must be a list (got ${describe(value)})`];
+            return value.flatMap((item, i) => validateSchema(item, schema.items, `${where}[${i}]`));
+        case 'anyOf': {
+            const results = schema.options.map(option => validateSchema(value, option, at));
+            if (results.some(r => r.length === 0)) return [];
+            // Report against the option of the same kind (e.g. a mapping's missing keys), if any
+            const sameKind = schema.options.findIndex(option =>
+                option.type === 'object' ? typeof value === 'object' && value !== null && !Array.isArray(value) :
+                option.type === 'array' ? Array.isArray(value) :
+                option.type === 'enum' ? typeof value === 'string' :
+                option.type === typeof value);
+            return results[sameKind >= 0 ? sameKind : 0];
+        }
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${where} must be a mapping (got ${describe(value)})`];
+            }
+            const messages: string[] = [];
+            const record = value as Record<string, unknown>;
+            for (const key of schema.required || []) {
+                if (record[key] === undefined) messages.push(`${at ? `${at}.` : ''}${key} is required`);
+            }
+            for (const [key, child] of Object.entries(record)) {
+                const field = schema.properties[key];
+                const childAt = at ? `${at}.${key}` : key;
+                if (field) {
+                    messages.push(...validateSchema(child, field, childAt));
+                } else if (!schema.open) {
+                    messages.push(`unknown key '${childAt}'`);
+                }
+            }
+            return messages;
+        }
+        case 'map': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${where} must be a mapping (got ${describe(value)})`];
+            }
+            return Object.entries(value).flatMap(([key, child]) => validateSchema(child, schema.values, at ? `${at}.${key}` : key));
+        }
+    }
+}
+
+const FRAMEWORK_DIR = 'docs/ai/.contextuate';
+
+/**
+ * Collects markdown files under `dir`, recursively, sorted.
+ */
+async function markdownFiles(dir: string): Promise<string[]> {
+    if (!await fs.pathExists(dir)) return [];
+    const files: string[] = [];
+    const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (entry.name !== 'node_modules') files.push(...await markdownFiles(full));
+        } else if (entry.name.endsWith('.md')) {
+            files.push(full);
+        }
+    }
+    return files;
+}
+
+/**
+ * Validates agents, tools, the tool policy, context references and relative links
+ * under docs/ai/.
+ */
+export class ProjectLinter {
+    private projectRoot: string;
+    private issues: LintIssue[] = [];
+
+    constructor(projectRoot: string) {
+        this.projectRoot = projectRoot;
+    }
+
+    async lint(): Promise<LintIssue[]> {
+        this.issues = [];
+        await this.lintAgents();
+        await this.lintTools();
+        await this.lintPolicy();
+        await this.lintHooks();
+        await this.lintCommands();
+        await this.lintSkills();
+        await this.lintLinks();
+        return this.issues;
+    }
+
+    private report(severity: LintSeverity, file: string, message: string, line?: number) {
+        this.issues.push({ severity, file: path.relative(this.projectRoot, file), line, message });
+    }
+
+    private async parseFrontmatter(file: string): Promise<matter.GrayMatterFile<string> | null> {
+        try {
+            return matter(await fs.readFile(file, 'utf-8'));
+        } catch (e: any) {
+            this.report('error', file, `invalid frontmatter: ${e.message.split('\n')[0]}`);
+            return null;
+        }
+    }
+
+    private async lintAgents() {
+        const dir = path.join(this.projectRoot, AGENTS_DIR);
+        if (!await fs.pathExists(dir)) return;
+
+        const toolLoader = new ToolLoader(this.projectRoot);
+        const providers = listProviders();
+        const files = (await fs.readdir(dir)).filter(f => f.endsWith('.md')).sort();
+
+        for (const file of files) {
+            const agentPath = path.join(dir, file);
+            const name = file.replace(/\.md$/, '');
+            const parsed = await this.parseFrontmatter(agentPath);
+            if (!parsed) continue;
+
+            const data = parsed.data || {};
+            if (Object.keys(data).length === 0) {
+                this.report('error', agentPath, 'missing frontmatter');
+                continue;
+            }
+
+            const schemaErrors = validateSchema(data, AGENT_SCHEMA);
+            schemaErrors.forEach(m => this.report('error', agentPath, m));
+            if (schemaErrors.length > 0) continue; // Reference checks assume the right shapes
+
+            if (data.name && data.name !== name) {
+                this.report('warning', agentPath, `name '${data.name}' does not match the file name '${name}'`);
+            }
+
+            if (data.provider && !data.provider.module && !providers.includes(data.provider.type)) {
+                this.report('error', agentPath, `unknown provider type '${data.provider.type}' (available: ${providers.join(', ')}; or set provider.module)`);
+            }
+            for (const key of ['module', 'script', 'session'] as const) {
+                const ref = data.provider?.[key];
+                if (ref && (key !== 'session' || ref.endsWith('.jsonl')) && !await fs.pathExists(path.resolve(this.projectRoot, ref))) {
+                    this.report('error', agentPath, `provider.${key} not found: ${ref}`);
+                }
+            }
+
+            for (const cap of data.capabilities || []) {
+                if (isBuiltinCapability(cap) || cap === SPAWN_CAPABILITY || cap === DISPATCH_CAPABILITY) continue;
+                if ((await toolLoader.loadTools([cap], true)).length === 0) {
+                    this.report('error', agentPath, `capability '${cap}' does not map to a built-in tool or a *.tool.md file`);
+                }
+            }
+
+            for (const file of data.context?.files || []) {
+                const target = path.resolve(this.projectRoot, file);
+                if (!await fs.pathExists(target) || !(await fs.stat(target)).isFile()) {
+                    this.report('error', agentPath, `context file not found: ${file}`);
+                }
+            }
+
+            for (const entry of data.context?.directories || []) {
+                const dirPath = typeof entry === 'string' ? entry : entry.path;
+                const target = path.resolve(this.projectRoot, dirPath);
+                if (!await fs.pathExists(target) || !(await fs.stat(target)).isDirectory()) {
+                    this.report('error', agentPath, `context directory not found: ${dirPath}`);
+                }
+            }
+
+            if (data.inherits) {
+                try {
+                    await resolveAgent(this.projectRoot, await loadAgentFile(name, agentPath));
+                } catch (e: any) {
+                    if (!(e instanceof AgentResolutionError)) throw e;
+                    this.report('error', agentPath, e.message);
+                }
+            }
+        }
+    }
+
+    private async lintTools() {
+        const dir = path.join(this.projectRoot, 'docs/ai/tools');
+        if (!await fs.pathExists(dir)) return;
+
+        const files = (await fs.readdir(dir)).filter(f => f.endsWith('.md')).sort();
+        for (const file of files) {
+            const toolPath = path.join(dir, file);
+            const parsed = await this.parseFrontmatter(toolPath);
+            if (!parsed) continue;
+
+            const data = parsed.data || {};
+            const schemaErrors = validateSchema(data, TOOL_SCHEMA);
+            schemaErrors.forEach(m => this.report('error', toolPath, m));
+            if (schemaErrors.length > 0 || !data.implementation) continue;
+
+            const impl = data.implementation;
+            if (impl.type === 'builtin') {
+                if (!impl.tool) {
+                    this.report('error', toolPath, 'implementation.tool is required for builtin tools');
+                } else if (!BUILTIN_TOOLS.some(t => t.name === impl.tool)) {
+                    this.report('error', toolPath, `implementation.tool '${impl.tool}' is not a built-in tool`);
+                }
+            } else if (impl.type === 'shell') {
+                if (!impl.command) this.report('error', toolPath, 'implementation.command is required for shell tools');
+            } else if (impl.type === 'module') {
+                if (!impl.module) {
+                    this.report('error', toolPath, 'implementation.module is required for module tools');
+                } else if (!await fs.pathExists(path.resolve(this.projectRoot, impl.module))) {
+                    this.report('error', toolPath, `implementation.module not found: ${impl.module}`);
+                }
+            } else {
+                this.report('error', toolPath, `unknown implementation.type '${impl.type}' (use builtin, shell or module)`);
+            }
+        }
+    }
+
+    private async lintPolicy() {
+        const file = path.join(this.projectRoot, POLICY_FILE);
+        if (!await fs.pathExists(file)) return;
+
+        let data: unknown;
+        try {
+            data = yaml.load(await fs.readFile(file, 'utf-8'));
+        } catch (e: any) {
+            this.report('error', file, `invalid YAML: ${e.message.split('\n')[0]}`);
+            return;
+        }
+        validateSchema(data ?? {}, PERMISSIONS_SCHEMA, 'policy').forEach(m => this.report('error', file, m));
+    }
+
+    private async lintHooks() {
+        const file = path.join(this.projectRoot, HOOKS_DIR, HOOKS_MANIFEST);
+        if (!await fs.pathExists(file)) return;
+
+        let data: unknown;
+        try {
+            data = yaml.load(await fs.readFile(file, 'utf-8'));
+        } catch (e: any) {
+            this.report('error', file, `invalid YAML: ${e.message.split('\n')[0]}`);
+            return;
+        }
+        validateSchema(data ?? {}, HOOKS_SCHEMA, 'hooks').forEach(m => this.report('error', file, m));
+    }
+
+    private async lintCommands() {
+        for (const command of await listCommands(this.projectRoot)) {
+            const schemaErrors = validateSchema(command.config, COMMAND_SCHEMA);
+            schemaErrors.forEach(m => this.report('error', command.path, m));
+            if (schemaErrors.length > 0) continue;
+
+            if (command.config.agent && !await findAgentFile(this.projectRoot, command.config.agent)) {
+                this.report('error', command.path, `agent not found: ${command.config.agent}`);
+            }
+
+            const declared = new Set((command.config.arguments || []).map(a => a.name));
+            const used = [...command.body.matchAll(/\{\{\s*([\w-]+)\s*\}\}/g)].map(m => m[1]);
+            [...new Set(used)].filter(name => !declared.has(name)).forEach(name =>
+                this.report('warning', command.path, `placeholder {{${name}}} is not a declared argument`)
+            );
+        }
+    }
+
+    private async lintSkills() {
+        const dir = path.join(this.projectRoot, SKILLS_DIR);
+        if (!await fs.pathExists(dir)) return;
+
+        const names = new Map<string, string>();
+        for (const entry of (await fs.readdir(dir, { withFileTypes: true })).filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+            const skillPath = path.join(dir, entry.name, SKILL_FILE);
+            if (!await fs.pathExists(skillPath)) {
+                this.report('warning', path.join(dir, entry.name), `no ${SKILL_FILE}; the folder is not loaded as a skill`);
+                continue;
+            }
+            const parsed = await this.parseFrontmatter(skillPath);
+            if (!parsed) continue;
+
+            const data = parsed.data || {};
+            const schemaErrors = validateSchema(data, SKILL_SCHEMA);
+            schemaErrors.forEach(m => this.report('error', skillPath, m));
+            if (schemaErrors.length > 0) continue;
+
+            if (!data.description) {
+                this.report('warning', skillPath, 'no description; the model only sees skills by their description');
+            }
+            const name = data.name || entry.name;
+            if (names.has(name)) {
+                this.report('error', skillPath, `skill name '${name}' is also used by ${path.relative(this.projectRoot, names.get(name)!)}`);
+            } else {
+                names.set(name, skillPath);
+            }
+        }
+    }
+
+    /**
+     * Checks that relative links in docs/ai/ markdown point at existing files.
+     * External URLs, anchors, placeholders and links inside code are ignored, and so
+     * are framework files in docs/ai/.contextuate: `init` replaces them, and they link
+     * to optional agents the project may not have installed.
+     */
+    private async lintLinks() {
+        const framework = path.join(this.projectRoot, FRAMEWORK_DIR) + path.sep;
+        for (const file of await markdownFiles(path.join(this.projectRoot, 'docs/ai'))) {
+            if (file.startsWith(framework)) continue;
+            const lines = (await fs.readFile(file, 'utf-8')).split('\n');
+            let inFence = false;
+
+            for (let i = 0; i < lines.length; i++) {
+                if (/^\s*(```|~~~)/.test(lines[i])) {
+                    inFence = !inFence;
+                    continue;
+                }
+                if (inFence) continue;
+
+                const text = lines[i].replace(/`[^`]*`/g, '');
+                for (const match of text.matchAll(/!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+                    const target = match[1];
+                    if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#')) continue;
+                    if (/\{[^}]+\}/.test(target)) continue; // Template placeholder, e.g. agents/{name}.md
+
+                    let targetPath: string;
+                    try {
+                        targetPath = decodeURIComponent(target.split('#')[0].split('?')[0]);
+                    } catch {
+                        // A stray %, e.g. [x](100%.md), isn't valid percent-encoding
+                        this.report('error', file, `malformed link: ${target} (use %25 for a literal %)`, i + 1);
+                        continue;
+                    }
+                    const resolved = targetPath.startsWith('/')
+                        ? path.join(this.projectRoot, targetPath)
+                        : path.resolve(path.dirname(file), targetPath);
+                    if (!await fs.pathExists(resolved)) {
+                        this.report('error', file, `broken link: ${target}`, i + 1);
+                    }
+                }
+            }
+        }
+    }
+}
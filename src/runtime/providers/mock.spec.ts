@@ -0,0 +1,72 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadMockScript } from './mock';
+import { resolveProvider } from './index';
+
+describe('mock provider', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-mock-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(root);
+    });
+
+    const createSession = (mockScript?: string) => resolveProvider('mock', root)
+        .createSession({ config: { provider: 'mock', model: 'm', mockScript }, system: '', goal: 'x', tools: [] });
+
+    it('plays a YAML script turn by turn, numbering tool calls without ids', async () => {
+        const script = path.join(root, 'script.yaml');
+        await fs.writeFile(script, [
+            'turns:',
+            '  - text: Writing',
+            '    tool_calls:',
+            '      - name: write_file',
+            '        input: { path: a.txt, content: hi }',
+            '      - id: custom',
+            '        name: read_file',
+            '  - text: Done',
+        ].join('\n'));
+
+        const chat = await createSession(script);
+        expect(await chat.send([])).toEqual({
+            text: 'Writing',
+            toolCalls: [
+                { id: 'mock-1-1', name: 'write_file', input: { path: 'a.txt', content: 'hi' } },
+                { id: 'custom', name: 'read_file', input: {} },
+            ],
+            done: false,
+        });
+        expect(await chat.send([])).toEqual({ text: 'Done', toolCalls: [], done: true });
+        // A script that runs out ends the run
+        expect(await chat.send([])).toEqual({ text: '', toolCalls: [], done: true });
+    });
+
+    it('accepts a JSON list of turns', async () => {
+        const script = path.join(root, 'script.json');
+        await fs.writeJson(script, [{ text: 'Only turn' }]);
+
+        expect(await loadMockScript(script)).toEqual([{ text: 'Only turn' }]);
+    });
+
+    it('uses the built-in smoke test without a script', async () => {
+        const turn = await (await createSession()).send([]);
+        expect(turn.toolCalls.map(c => c.name)).toEqual(['list_files']);
+    });
+
+    it('rejects missing and malformed scripts', async () => {
+        await expect(loadMockScript(path.join(root, 'missing.yaml'))).rejects.toThrow(/^Mock script not found/);
+
+        const empty = path.join(root, 'empty.yaml');
+        await fs.writeFile(empty, 'turns: []');
+        await expect(loadMockScript(empty)).rejects.toThrow('must contain a non-empty list of turns');
+
+        const badCalls = path.join(root, 'bad.yaml');
+        await fs.writeFile(badCalls, '- tool_calls: [{ input: {} }]');
+        await expect(loadMockScript(badCalls)).rejects.toThrow('turn 1 tool_calls must be a list of { name, input }');
+    });
+});
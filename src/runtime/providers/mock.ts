@@ -0,0 +1,87 @@
+import fs from 'fs-extra';
+import path from 'path';
+import yaml from 'js-yaml';
+import { ChatSession, ModelTurn, Provider, SessionOptions, ToolCall } from './types';
+
+interface ScriptedTurn {
+    text?: string;
+    tool_calls?: { id?: string; name: string; input?: Record<string, any>; }[];
+}
+
+// Used when the agent doesn't reference a fixture: a quick smoke test of the tool layer
+const DEFAULT_SCRIPT: ScriptedTurn[] = [
+    {
+        text: 'I need to check the files to understand the context.',
+        tool_calls: [{ name: 'list_files', input: { path: '.' } }],
+    },
+    {
+        text: 'Okay, I see the structure. I have completed the basic check.',
+    },
+];
+
+/**
+ * Loads a mock fixture. Accepts YAML or JSON, either a list of turns or `{ turns: [...] }`.
+ */
+export async function loadMockScript(filePath: string): Promise<ScriptedTurn[]> {
+    if (!await fs.pathExists(filePath)) {
+        throw new Error(`Mock script not found: ${filePath}`);
+    }
+
+    const raw = await fs.readFile(filePath, 'utf-8');
+    const data: any = path.extname(filePath) === '.json' ? JSON.parse(raw) : yaml.load(raw);
+    const turns = Array.isArray(data) ? data : data?.turns;
+
+    if (!Array.isArray(turns) || turns.length === 0) {
+        throw new Error(`Mock script ${filePath} must contain a non-empty list of turns.`);
+    }
+
+    turns.forEach((turn: any, i: number) => {
+        if (typeof turn !== 'object' || turn === null) {
+            throw new Error(`Mock script ${filePath}: turn ${i + 1} must be an object.`);
+        }
+        if (turn.text !== undefined && typeof turn.text !== 'string') {
+            throw new Error(`Mock script ${filePath}: turn ${i + 1} text must be a string.`);
+        }
+        if (turn.tool_calls !== undefined && (!Array.isArray(turn.tool_calls) || turn.tool_calls.some((c: any) => typeof c?.name !== 'string'))) {
+            throw new Error(`Mock script ${filePath}: turn ${i + 1} tool_calls must be a list of { name, input }.`);
+        }
+    });
+
+    return turns;
+}
+
+/**
+ * Plays scripted assistant turns in order. Tool calls go through the real tool layer.
+ */
+class MockSession implements ChatSession {
+    private index = 0;
+
+    constructor(private script: ScriptedTurn[]) { }
+
+    async send(): Promise<ModelTurn> {
+        const turn = this.script[this.index++];
+        if (!turn) {
+            // Script ran out while the model was still calling tools
+            return { text: '', toolCalls: [], done: true };
+        }
+
+        const toolCalls: ToolCall[] = (turn.tool_calls || []).map((c, i) => ({
+            id: c.id || `mock-${this.index}-${i + 1}`,
+            name: c.name,
+            input: c.input || {},
+        }));
+
+        return { text: turn.text || '', toolCalls, done: toolCalls.length === 0 };
+    }
+}
+
+export class MockProvider implements Provider {
+    name = 'mock';
+
+    async createSession(options: SessionOptions): Promise<ChatSession> {
+        const script = options.config.mockScript
+            ? await loadMockScript(options.config.mockScript)
+            : DEFAULT_SCRIPT;
+        return new MockSession(script);
+    }
+}
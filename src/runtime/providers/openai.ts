@@ -0,0 +1,110 @@
+import { ChatSession, ModelTurn, Provider, SessionOptions, ToolResult } from './types';
+
+// --- OpenAI chat-completions shapes (only the parts we use) ---
+
+interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string; };
+}
+
+type OpenAIMessage =
+    | { role: 'system' | 'user'; content: string; }
+    | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[]; }
+    | { role: 'tool'; tool_call_id: string; content: string; };
+
+interface OpenAIResponse {
+    choices: {
+        message: { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[]; };
+        finish_reason: 'stop' | 'tool_calls' | 'length' | string;
+    }[];
+    usage?: { prompt_tokens: number; completion_tokens: number; };
+}
+
+class OpenAISession implements ChatSession {
+    private messages: OpenAIMessage[] = [];
+
+    constructor(
+        private options: SessionOptions,
+        private baseUrl: string,
+        private apiKey?: string
+    ) {
+        if (options.system) {
+            this.messages.push({ role: 'system', content: options.system });
+        }
+        this.messages.push({ role: 'user', content: options.goal });
+    }
+
+    async send(toolResults: ToolResult[], signal?: AbortSignal): Promise<ModelTurn> {
+        for (const r of toolResults) {
+            this.messages.push({ role: 'tool', tool_call_id: r.id, content: r.content });
+        }
+
+        const headers: Record<string, string> = { 'content-type': 'application/json' };
+        if (this.apiKey) {
+            headers['authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        const { config, tools } = this.options;
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            signal,
+            headers,
+            body: JSON.stringify({
+                model: config.model,
+                max_tokens: config.maxTokens || undefined,
+                tools: tools.length > 0
+                    ? tools.map(t => ({
+                        type: 'function',
+                        function: { name: t.name, description: t.description, parameters: t.inputSchema },
+                    }))
+                    : undefined,
+                messages: this.messages,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`OpenAI-compatible API error ${response.status}: ${await response.text()}`);
+        }
+
+        const data = await response.json() as OpenAIResponse;
+        const choice = data.choices?.[0];
+        if (!choice) {
+            throw new Error('OpenAI-compatible API returned no choices.');
+        }
+
+        const message = choice.message;
+        this.messages.push({ role: 'assistant', content: message.content, tool_calls: message.tool_calls });
+
+        const toolCalls = (message.tool_calls || []).map(c => {
+            let input: Record<string, any> = {};
+            try {
+                input = c.function.arguments ? JSON.parse(c.function.arguments) : {};
+            } catch {
+                // Some local models emit malformed JSON; pass an empty object and let the tool complain
+            }
+            return { id: c.id, name: c.function.name, input };
+        });
+
+        return {
+            text: message.content || '',
+            toolCalls,
+            // Not every server sets finish_reason to "tool_calls", so trust the presence of calls
+            done: toolCalls.length === 0,
+            usage: data.usage ? { inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens } : undefined,
+        };
+    }
+}
+
+export class OpenAICompatibleProvider implements Provider {
+    name = 'openai-compatible';
+
+    async createSession(options: SessionOptions): Promise<ChatSession> {
+        // Local servers (llama.cpp, vLLM, Ollama) usually expose the API under /v1
+        const baseUrl = (options.config.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+        // Self-hosted endpoints often run without auth, so a missing key is not an error
+        const apiKey = process.env[options.config.apiKeyEnv || 'OPENAI_API_KEY'];
+
+        return new OpenAISession(options, baseUrl, apiKey);
+    }
+}
@@ -0,0 +1,76 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SessionRecorder } from '../session';
+import { resolveProvider } from './index';
+
+describe('replay provider', () => {
+    let root: string;
+    let transcript: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-replay-'));
+        const recorder = new SessionRecorder(root, '100');
+        transcript = recorder.filePath;
+
+        const calls = [{ id: 'a', name: 'read_file', input: { path: 'a.txt' } }, { id: 'b', name: 'run_shell', input: { command: 'ls' } }];
+        await recorder.record({ type: 'model_turn', turn: 1, text: 'Looking.', tool_calls: calls });
+        await recorder.record({ type: 'tool_result', turn: 1, id: 'a', name: 'read_file', content: 'A', is_error: false });
+        await recorder.record({ type: 'tool_result', turn: 1, id: 'b', name: 'run_shell', content: 'ls output', is_error: false });
+        await recorder.record({ type: 'model_turn', turn: 2, text: 'Done.', tool_calls: [] });
+    });
+
+    afterEach(async () => {
+        await fs.remove(root);
+    });
+
+    const createSession = (replayFrom?: string) => resolveProvider('replay', root)
+        .createSession({ config: { provider: 'replay', model: 'm', replayFrom }, system: '', goal: 'x', tools: [] });
+
+    it('plays back the recorded turns', async () => {
+        const chat = await createSession(transcript);
+
+        const first = await chat.send([]);
+        expect(first).toMatchObject({ text: 'Looking.', done: false, divergences: [] });
+        expect(first.toolCalls.map(c => c.id)).toEqual(['a', 'b']);
+
+        const results = [
+            { id: 'a', name: 'read_file', content: 'A', isError: false },
+            { id: 'b', name: 'run_shell', content: 'ls output', isError: false },
+        ];
+        expect(await chat.send(results)).toEqual({ text: 'Done.', toolCalls: [], done: true, divergences: [] });
+    });
+
+    it('reports live tool results that differ from the recording', async () => {
+        const chat = await createSession(transcript);
+        await chat.send([]);
+
+        const next = await chat.send([
+            { id: 'a', name: 'read_file', content: 'changed', isError: false },
+            { id: 'b', name: 'run_shell', content: 'boom', isError: true },
+        ]);
+        expect(next.divergences).toEqual([
+            'Turn 1: read_file returned a different result than recorded',
+            'Turn 1: run_shell failed but the recording succeeded',
+        ]);
+    });
+
+    it('stops with a divergence when the recording runs out', async () => {
+        const chat = await createSession(transcript);
+        await chat.send([]);
+        await chat.send([]);
+
+        expect(await chat.send([])).toEqual({
+            text: '',
+            toolCalls: [],
+            done: true,
+            divergences: ['Recording has no more model turns; stopping replay'],
+        });
+    });
+
+    it('requires an existing recording', async () => {
+        await expect(createSession()).rejects.toThrow(/needs a recorded session/);
+        await expect(createSession(path.join(root, 'missing.jsonl'))).rejects.toThrow(/^Recorded session not found/);
+    });
+});
@@ -0,0 +1,91 @@
+import fs from 'fs-extra';
+import { readSession, RecordedEvent } from '../session';
+import { ChatSession, ModelTurn, Provider, SessionOptions, ToolCall, ToolResult } from './types';
+
+interface RecordedTurn {
+    turn: number;
+    text: string;
+    toolCalls: ToolCall[];
+    results: Map<string, { content: string; isError: boolean }>;
+}
+
+/**
+ * Rebuilds the model turns and their tool results from a transcript.
+ */
+function extractTurns(events: RecordedEvent[]): RecordedTurn[] {
+    const turns: RecordedTurn[] = [];
+
+    for (const event of events) {
+        if (event.type === 'model_turn') {
+            turns.push({ turn: event.turn, text: event.text, toolCalls: event.tool_calls, results: new Map() });
+        } else if (event.type === 'tool_result') {
+            const owner = turns.find(t => t.turn === event.turn);
+            owner?.results.set(event.id, { content: event.content, isError: event.is_error });
+        }
+    }
+
+    return turns;
+}
+
+/**
+ * Plays back recorded model turns while the driver executes the tool calls for real.
+ * Each live tool result is compared with the recorded one and any mismatch is
+ * reported as a divergence on the next turn.
+ */
+class ReplaySession implements ChatSession {
+    private index = 0;
+
+    constructor(private turns: RecordedTurn[]) { }
+
+    async send(toolResults: ToolResult[]): Promise<ModelTurn> {
+        const divergences: string[] = [];
+
+        if (this.index > 0) {
+            const previous = this.turns[this.index - 1];
+            for (const live of toolResults) {
+                const recorded = previous.results.get(live.id);
+                if (!recorded) {
+                    divergences.push(`Turn ${previous.turn}: no recorded result for ${live.name} (${live.id})`);
+                } else if (recorded.isError !== live.isError) {
+                    divergences.push(`Turn ${previous.turn}: ${live.name} ${live.isError ? 'failed' : 'succeeded'} but the recording ${recorded.isError ? 'failed' : 'succeeded'}`);
+                } else if (recorded.content !== live.content) {
+                    divergences.push(`Turn ${previous.turn}: ${live.name} returned a different result than recorded`);
+                }
+            }
+        }
+
+        const next = this.turns[this.index++];
+        if (!next) {
+            divergences.push('Recording has no more model turns; stopping replay');
+            return { text: '', toolCalls: [], done: true, divergences };
+        }
+
+        return {
+            text: next.text,
+            toolCalls: next.toolCalls,
+            done: next.toolCalls.length === 0,
+            divergences,
+        };
+    }
+}
+
+export class ReplayProvider implements Provider {
+    name = 'replay';
+
+    async createSession(options: SessionOptions): Promise<ChatSession> {
+        const source = options.config.replayFrom;
+        if (!source) {
+            throw new Error('Replay provider needs a recorded session (provider.session or --replay <id>).');
+        }
+        if (!await fs.pathExists(source)) {
+            throw new Error(`Recorded session not found: ${source}`);
+        }
+
+        const turns = extractTurns(await readSession(source));
+        if (turns.length === 0) {
+            throw new Error(`Recorded session has no model turns: ${source}`);
+        }
+
+        return new ReplaySession(turns);
+    }
+}
@@ -0,0 +1,50 @@
+import { DriverConfig } from '../driver';
+import { ToolSpec } from '../builtins';
+
+/** A tool invocation requested by the model, normalized across providers. */
+export interface ToolCall {
+    id: string;
+    name: string;
+    input: Record<string, any>;
+}
+
+export interface ToolResult {
+    id: string;
+    name: string;
+    content: string;
+    isError: boolean;
+}
+
+/** One model response, normalized across providers. */
+export interface ModelTurn {
+    text: string;
+    toolCalls: ToolCall[];
+    done: boolean;
+    divergences?: string[]; // Set by the replay provider when live tool results differ from the recording
+    usage?: { inputTokens: number; outputTokens: number; }; // Tokens billed for this turn, if the API reports them
+}
+
+/**
+ * Provider-specific conversation state. `send` appends the results of the previous
+ * turn's tool calls (if any) and asks the model for its next turn. `signal` is aborted
+ * when the run times out; providers should pass it on to their HTTP requests.
+ */
+export interface ChatSession {
+    send(toolResults: ToolResult[], signal?: AbortSignal): Promise<ModelTurn>;
+}
+
+export interface SessionOptions {
+    config: DriverConfig;
+    system: string;
+    goal: string;
+    tools: ToolSpec[]; // Callable tools to advertise to the model
+}
+
+/**
+ * An LLM backend. Providers only translate between the normalized turn format and
+ * their wire protocol; tool dispatch, turn limits and logging live in LLMDriver.
+ */
+export interface Provider {
+    name: string;
+    createSession(options: SessionOptions): Promise<ChatSession>;
+}
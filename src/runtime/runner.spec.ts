@@ -0,0 +1,112 @@
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ToolError } from './builtins';
+import { capLimits, resolveLimits, runCommitMessage, spawnChildRun } from './runner';
+import { readSession, sessionPath } from './session';
+import { MAX_SPAWN_DEPTH } from './spawn';
+
+describe('resolveLimits', () => {
+    it('lets CLI flags override frontmatter limits', () => {
+        const limits = resolveLimits({ limits: { max_turns: 10, timeout: '5m' } }, { maxTurns: '3' });
+        expect(limits).toEqual({ maxTurns: 3, maxInputTokens: undefined, maxOutputTokens: undefined, timeoutMs: 300000 });
+    });
+
+    it('rejects limits that are not positive integers', () => {
+        expect(() => resolveLimits({}, { maxInputTokens: '0' })).toThrow('max_input_tokens must be a positive integer (got "0")');
+    });
+});
+
+describe('capLimits', () => {
+    it('takes the tighter of each limit', () => {
+        expect(capLimits({ maxTurns: 10, maxInputTokens: 500 }, { maxTurns: 4, maxOutputTokens: 100 }))
+            .toEqual({ maxTurns: 4, maxInputTokens: 500, maxOutputTokens: 100, timeoutMs: undefined });
+    });
+});
+
+describe('runCommitMessage', () => {
+    it('puts the agent and a shortened goal in the subject', () => {
+        const goal = 'Rewrite the installation guide so it covers every supported platform\nand package manager';
+        expect(runCommitMessage('docs', goal, '100', 'completed').split('\n')).toEqual([
+            'docs: Rewrite the installation guide so it covers every support...',
+            '',
+            'Rewrite the installation guide so it covers every supported platform',
+            'and package manager',
+            '',
+            'Agent: docs',
+            'Session: 100',
+            'Status: completed',
+            '',
+        ]);
+    });
+});
+
+describe('spawnChildRun', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-runner-'));
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+        await fs.outputFile(path.join(root, 'docs/ai/agents/helper.md'), [
+            '---',
+            'name: helper',
+            'provider: { type: mock, model: m, script: helper.yaml }',
+            '---',
+            'Helper instructions',
+        ].join('\n'));
+        await fs.writeFile(path.join(root, 'helper.yaml'), '- text: Child done');
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.remove(root);
+    });
+
+    const parent = (depth = 0) => ({ projectRoot: root, sessionId: 'parent', cwd: root, depth, interactive: false });
+
+    it('runs the child in its own session linked to the parent', async () => {
+        const result = await spawnChildRun(parent(), { agent_name: 'helper', goal: 'Help out', isolation: 'none' }, {});
+
+        expect(result).toMatchObject({ agent: 'helper', status: 'completed', summary: 'Child done', turns: 1, branch: undefined });
+        const events = await readSession(sessionPath(root, result.session_id));
+        expect(events[0]).toMatchObject({ type: 'session_start', goal: 'Help out', parent_session_id: 'parent', isolation: 'none' });
+    });
+
+    it('refuses unknown agents and nesting past the depth limit', async () => {
+        await expect(spawnChildRun(parent(), { agent_name: 'nobody', goal: 'x', isolation: 'none' }, {}))
+            .rejects.toThrow(new ToolError("Unknown agent 'nobody'. Available agents: helper"));
+        await expect(spawnChildRun(parent(MAX_SPAWN_DEPTH), { agent_name: 'helper', goal: 'x', isolation: 'none' }, {}))
+            .rejects.toThrow(`Sub-agents can only be nested ${MAX_SPAWN_DEPTH} levels deep.`);
+    });
+
+    it('needs a git repository for worktree isolation', async () => {
+        await expect(spawnChildRun(parent(), { agent_name: 'helper', goal: 'x' }, {}))
+            .rejects.toThrow('isolation "worktree" requires a git repository; use isolation "none".');
+    });
+
+    it('commits what a worktree child changed on its branch', async () => {
+        const git = (args: string[]) => execFileSync('git', args, { cwd: root, encoding: 'utf-8' }).trim();
+        git(['init', '-q', '-b', 'main']);
+        git(['config', 'user.email', 'test@example.com']);
+        git(['config', 'user.name', 'Test']);
+        git(['add', '.']);
+        git(['commit', '-q', '-m', 'initial']);
+        await fs.outputFile(path.join(root, 'docs/ai/agents/writer.md'), [
+            '---',
+            'capabilities: ["write_files"]',
+            'provider: { type: mock, model: m, script: writer.yaml }',
+            '---',
+        ].join('\n'));
+        await fs.writeFile(path.join(root, 'writer.yaml'), [
+            '- tool_calls: [{ name: write_file, input: { path: notes.md, content: "notes\\n" } }]',
+            '- text: Wrote notes',
+        ].join('\n'));
+
+        const result = await spawnChildRun(parent(), { agent_name: 'writer', goal: 'Write "notes"' }, {});
+
+        expect(result).toMatchObject({ status: 'completed', changed_files: ['notes.md'] });
+        expect(git(['log', '-1', '--format=%H%n%s', result.branch!])).toBe(`${result.commit}\nwriter: Write "notes"`);
+    });
+});
@@ -0,0 +1,411 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import { GitManager } from '../utils/git';
+import { parseDuration } from '../utils/duration';
+import { AgentConfig, ResolvedAgent, findAgentFile, listAgents, loadAgentFile, resolveAgent } from './agent';
+import { AssembledContext, buildAgentContext } from './context';
+import { LLMDriver, LimitName, RunLimits } from './driver';
+import { ChangeSummary, SessionRecorder, SessionStatus, sessionPath } from './session';
+import { ToolError } from './builtins';
+import { MAX_SPAWN_DEPTH, SpawnRequest, SpawnResult } from './spawn';
+import { PermissionGate, loadPolicyFile, mergePermissions } from './policy';
+import { HookError, HookRunner, discoverHooks } from './hooks';
+
+export const DEFAULT_PROVIDER = { type: 'mock', model: 'test' };
+
+/**
+ * CLI flag values that override an agent's `limits` frontmatter.
+ */
+export interface LimitOverrides {
+    maxTurns?: string;
+    maxInputTokens?: string;
+    maxOutputTokens?: string;
+    timeout?: string;
+    maxConcurrency?: string;
+}
+
+/**
+ * Merges frontmatter limits with CLI flags (flags win). Throws on invalid values.
+ */
+export function resolveLimits(config: AgentConfig, overrides: LimitOverrides = {}): RunLimits {
+    const positiveInt = (value: string | number | undefined, name: string): number | undefined => {
+        if (value === undefined) return undefined;
+        const n = typeof value === 'number' ? value : parseInt(value, 10);
+        if (!Number.isInteger(n) || n <= 0) {
+            throw new Error(`${name} must be a positive integer (got "${value}")`);
+        }
+        return n;
+    };
+
+    const timeout = overrides.timeout ?? config.limits?.timeout;
+
+    return {
+        maxTurns: positiveInt(overrides.maxTurns ?? config.limits?.max_turns, 'max_turns'),
+        maxInputTokens: positiveInt(overrides.maxInputTokens ?? config.limits?.max_input_tokens, 'max_input_tokens'),
+        maxOutputTokens: positiveInt(overrides.maxOutputTokens ?? config.limits?.max_output_tokens, 'max_output_tokens'),
+        timeoutMs: timeout !== undefined ? parseDuration(timeout) : undefined,
+        maxConcurrency: positiveInt(overrides.maxConcurrency ?? config.limits?.max_concurrency, 'max_concurrency'),
+    };
+}
+
+/**
+ * Applies a parent's remaining budget on top of a child's own limits: each limit is the
+ * tighter of the two.
+ */
+export function capLimits(own: RunLimits, budget: RunLimits): RunLimits {
+    const min = (a?: number, b?: number) => a === undefined ? b : b === undefined ? a : Math.min(a, b);
+    return {
+        maxTurns: min(own.maxTurns, budget.maxTurns),
+        maxInputTokens: min(own.maxInputTokens, budget.maxInputTokens),
+        maxOutputTokens: min(own.maxOutputTokens, budget.maxOutputTokens),
+        timeoutMs: min(own.timeoutMs, budget.timeoutMs),
+        maxConcurrency: min(own.maxConcurrency, budget.maxConcurrency),
+    };
+}
+
+/**
+ * Accepts a session id (looked up in .contextuate/sessions) or a path to a transcript.
+ */
+export function resolveSessionPath(projectRoot: string, session: string): string {
+    const asPath = path.resolve(projectRoot, session);
+    if (session.endsWith('.jsonl') || fs.existsSync(asPath)) {
+        return asPath;
+    }
+    return sessionPath(projectRoot, session);
+}
+
+let lastSessionId = 0;
+
+/**
+ * Millisecond timestamps, bumped when two sessions start in the same millisecond
+ * (e.g. sub-agents spawned together).
+ */
+export function newSessionId(): string {
+    lastSessionId = Math.max(Date.now(), lastSessionId + 1);
+    return String(lastSessionId);
+}
+
+export interface RunRequest {
+    projectRoot: string;
+    agent: ResolvedAgent;
+    sessionId: string;
+    goal: string;
+    runtimeCwd: string;
+    isolation: string;
+    branch?: string;
+    context: AssembledContext;
+    limits: RunLimits;
+    parentSessionId?: string;
+    depth?: number;          // 0 for top-level runs
+    exportPatch?: string;    // Worktree runs: where to write the run's changes as a patch
+    interactive?: boolean;   // Whether `ask` permissions can prompt; denied otherwise
+    signal?: AbortSignal;    // Sub-agents: aborted when the parent run stops
+}
+
+export interface RunOutcome {
+    sessionId: string;
+    status: SessionStatus;
+    output: string;
+    turns: number;
+    usage: { inputTokens: number; outputTokens: number; };
+    divergences: string[];
+    limit?: LimitName;
+    error?: string;
+    transcript: string;
+    changes?: ChangeSummary; // Worktree runs only
+}
+
+/**
+ * Commit message for the end of a worktree run: a subject from the agent and goal,
+ * then the full goal and the session it came from.
+ */
+export function runCommitMessage(agentName: string, goal: string, sessionId: string, status: SessionStatus): string {
+    const firstLine = goal.split('\n')[0].trim();
+    const subject = `${agentName}: ${firstLine.length > 60 ? firstLine.slice(0, 57) + '...' : firstLine}`;
+    return [subject, '', goal.trim(), '', `Agent: ${agentName}`, `Session: ${sessionId}`, `Status: ${status}`, ''].join('\n');
+}
+
+/**
+ * Commits whatever the agent left in its worktree and summarizes the changes since
+ * `base`. Failures are reported in the summary rather than thrown.
+ */
+async function commitWorktreeRun(request: RunRequest, base: string, status: SessionStatus): Promise<ChangeSummary> {
+    const { runtimeCwd, sessionId, agent } = request;
+    const git = new GitManager(runtimeCwd);
+    const summary: ChangeSummary = { base, files: [], added: 0, removed: 0 };
+
+    try {
+        summary.commit = await git.commitChanges(
+            runtimeCwd,
+            runCommitMessage(agent.config.name || agent.name, request.goal, sessionId, status)
+        );
+        summary.files = await git.diffNumstat(runtimeCwd, base);
+        summary.added = summary.files.reduce((n, f) => n + f.added, 0);
+        summary.removed = summary.files.reduce((n, f) => n + f.removed, 0);
+
+        if (request.exportPatch && summary.files.length > 0) {
+            await fs.ensureDir(path.dirname(request.exportPatch));
+            await fs.writeFile(request.exportPatch, await git.formatPatch(runtimeCwd, base));
+            summary.patch = path.relative(request.projectRoot, request.exportPatch);
+        }
+    } catch (e: any) {
+        summary.error = e.message;
+    }
+    return summary;
+}
+
+/**
+ * Drives a prepared agent run and records it to a session transcript. Failures are
+ * recorded and returned as an 'error' outcome rather than thrown. A failing pre-run
+ * hook aborts the run and a failing post-run hook marks it as an error. Worktree
+ * runs end with a commit of whatever the agent changed.
+ */
+export async function executeRun(request: RunRequest): Promise<RunOutcome> {
+    const { projectRoot, agent, sessionId, goal, runtimeCwd, context } = request;
+    const config = agent.config;
+    const provider = config.provider || DEFAULT_PROVIDER;
+    const recorder = new SessionRecorder(projectRoot, sessionId);
+
+    await recorder.record({
+        type: 'session_start',
+        session_id: sessionId,
+        agent: config.name || agent.name,
+        goal,
+        provider: provider.type,
+        model: provider.model,
+        cwd: runtimeCwd,
+        isolation: request.isolation,
+        parent_session_id: request.parentSessionId,
+        branch: request.branch,
+    });
+    await recorder.record({
+        type: 'context',
+        files: context.sections.filter(s => !s.omitted).map(s => ({ path: s.source, tokens: s.tokens })),
+        total_tokens: context.totalTokens,
+    });
+
+    const depth = request.depth || 0;
+    const interactive = request.interactive || false;
+    const spawner = (child: SpawnRequest, budget: RunLimits, signal?: AbortSignal) => spawnChildRun(
+        { projectRoot, sessionId, cwd: runtimeCwd, depth, interactive },
+        child,
+        budget,
+        signal
+    );
+
+    // Worktree runs end with a commit, so remember where the worktree started
+    const base = request.isolation === 'worktree'
+        ? await new GitManager(runtimeCwd).getHeadCommit().catch(() => undefined)
+        : undefined;
+
+    let outcome: RunOutcome;
+    let hooks: HookRunner | undefined;
+    let driver: LLMDriver | undefined;
+    try {
+        const runner = new HookRunner(
+            await discoverHooks(projectRoot),
+            { sessionId, agent: config.name || agent.name, goal, cwd: runtimeCwd, projectRoot },
+            recorder
+        );
+        const aborted = await runner.run('pre-run', {
+            isolation: request.isolation,
+            branch: request.branch,
+            parent_session_id: request.parentSessionId,
+        });
+        if (aborted) {
+            throw new HookError(`pre-run hook '${aborted.hook}' aborted the run: ${aborted.message}`);
+        }
+        hooks = runner;
+
+        const permissions = new PermissionGate(
+            mergePermissions(await loadPolicyFile(projectRoot), config.permissions),
+            config.name || agent.name,
+            interactive
+        );
+        driver = new LLMDriver(
+            {
+                provider: provider.type,
+                model: provider.model,
+                capabilities: config.capabilities || [],
+                baseUrl: config.provider?.base_url,
+                apiKeyEnv: config.provider?.api_key_env,
+                maxTokens: config.provider?.max_tokens,
+                providerModule: config.provider?.module,
+                replayFrom: config.provider?.session ? resolveSessionPath(projectRoot, config.provider.session) : undefined,
+                mockScript: config.provider?.script ? path.resolve(projectRoot, config.provider.script) : undefined,
+                limits: request.limits,
+                permissions,
+                readonly: config.readonly,
+                hooks,
+                skills: context.skills,
+                signal: request.signal,
+            },
+            goal,
+            runtimeCwd,
+            context.system,
+            recorder,
+            spawner
+        );
+        outcome = { sessionId, transcript: recorder.filePath, ...await driver.run() };
+    } catch (e: any) {
+        outcome = {
+            sessionId,
+            transcript: recorder.filePath,
+            status: 'error',
+            output: '',
+            // What was spent before the failure still counts (toward a parent's budget, too)
+            turns: driver?.progress.turns ?? 0,
+            usage: driver?.progress.usage ?? { inputTokens: 0, outputTokens: 0 },
+            divergences: [],
+            error: e.message,
+        };
+    }
+
+    // A sub-agent whose parent stopped leaves its worktree as it is: nothing more runs
+    // or gets committed after the parent has reported back
+    const abandoned = request.signal?.aborted;
+
+    // Post-run hooks (formatters, test suites) go before the commit so their changes are in it
+    const failed = abandoned ? undefined : await hooks?.run('post-run', {
+        status: outcome.status,
+        output: outcome.output,
+        turns: outcome.turns,
+        error: outcome.error,
+    });
+    if (failed) {
+        outcome.status = 'error';
+        outcome.error = `post-run hook '${failed.hook}' failed: ${failed.message}`;
+    }
+
+    if (base && !abandoned) {
+        outcome.changes = await commitWorktreeRun(request, base, outcome.status);
+        await recorder.record({ type: 'changes', ...outcome.changes });
+    }
+
+    await recorder.record({
+        type: 'session_end',
+        status: outcome.status,
+        output: outcome.output,
+        turns: outcome.turns,
+        usage: { input_tokens: outcome.usage.inputTokens, output_tokens: outcome.usage.outputTokens },
+        limit: outcome.limit,
+        error: outcome.error,
+    });
+    return outcome;
+}
+
+// `git worktree add` takes repository locks, so dispatched children create theirs one at a time
+let worktreeQueue: Promise<unknown> = Promise.resolve();
+
+function serializeWorktreeOp<T>(op: () => Promise<T>): Promise<T> {
+    const result = worktreeQueue.then(op);
+    worktreeQueue = result.catch(() => { });
+    return result;
+}
+
+interface ParentRun {
+    projectRoot: string;
+    sessionId: string;
+    cwd: string;     // Where the parent runs; children without isolation share it
+    depth: number;
+    interactive: boolean;
+}
+
+/**
+ * Runs a sub-agent for spawn_agent: its own session, a fresh worktree (unless
+ * isolation is "none"), and limits capped by the parent's remaining budget.
+ * Problems with the request are thrown as ToolErrors for the parent model to see.
+ */
+export async function spawnChildRun(parent: ParentRun, request: SpawnRequest, budget: RunLimits, signal?: AbortSignal): Promise<SpawnResult> {
+    const { projectRoot } = parent;
+    const name = request.agent_name;
+    const isolation = request.isolation || 'worktree';
+
+    if (isolation !== 'worktree' && isolation !== 'none') {
+        throw new ToolError(`Invalid isolation '${isolation}' (use "worktree" or "none").`);
+    }
+    if (parent.depth + 1 > MAX_SPAWN_DEPTH) {
+        throw new ToolError(`Sub-agents can only be nested ${MAX_SPAWN_DEPTH} levels deep.`);
+    }
+
+    const agentPath = await findAgentFile(projectRoot, name);
+    if (!agentPath) {
+        throw new ToolError(`Unknown agent '${name}'. Available agents: ${(await listAgents(projectRoot)).join(', ') || 'none'}`);
+    }
+
+    let agent: ResolvedAgent;
+    let limits: RunLimits;
+    try {
+        agent = await resolveAgent(projectRoot, await loadAgentFile(name, agentPath));
+        limits = capLimits(resolveLimits(agent.config), budget);
+    } catch (e: any) {
+        throw new ToolError(`Cannot run agent '${name}': ${e.message}`);
+    }
+    agent.config.provider = agent.config.provider || { ...DEFAULT_PROVIDER };
+
+    const sessionId = newSessionId();
+    let runtimeCwd = parent.cwd;
+    let branch: string | undefined;
+    let worktree: string | undefined;
+    let baseCommit: string | undefined;
+    const git = new GitManager(projectRoot);
+
+    if (isolation === 'worktree') {
+        if (!await git.isGitRepo()) {
+            throw new ToolError('isolation "worktree" requires a git repository; use isolation "none".');
+        }
+        const agentName = agent.config.name || name;
+        try {
+            [baseCommit, worktree] = await serializeWorktreeOp(async () => [
+                await git.getHeadCommit(),
+                await git.createWorktree(agentName, sessionId),
+            ]);
+        } catch (e: any) {
+            throw new ToolError(`Failed to create worktree: ${e.message}`);
+        }
+        branch = git.worktreeBranch(agentName, sessionId);
+        runtimeCwd = worktree;
+    }
+
+    console.log(chalk.magenta(`\n[SPAWN] ${name} (session ${sessionId})${branch ? ` on ${branch}` : ''}`));
+
+    const context = await buildAgentContext({ projectRoot, runtimeCwd, agent });
+    const outcome = await executeRun({
+        projectRoot,
+        agent,
+        sessionId,
+        goal: request.goal,
+        runtimeCwd,
+        isolation,
+        branch,
+        context,
+        limits,
+        parentSessionId: parent.sessionId,
+        depth: parent.depth + 1,
+        interactive: parent.interactive,
+        signal,
+    });
+
+    console.log(chalk.magenta(`[SPAWN] ${name} finished: ${outcome.status} after ${outcome.turns} turns`));
+
+    let changedFiles: string[] | undefined;
+    if (worktree && baseCommit) {
+        changedFiles = await git.changedFiles(worktree, baseCommit).catch(() => undefined);
+    }
+
+    return {
+        session_id: sessionId,
+        agent: name,
+        status: outcome.status,
+        summary: outcome.output,
+        turns: outcome.turns,
+        branch,
+        worktree,
+        changed_files: changedFiles,
+        commit: outcome.changes?.commit,
+        limit: outcome.limit,
+        error: outcome.error,
+        usage: { input_tokens: outcome.usage.inputTokens, output_tokens: outcome.usage.outputTokens },
+    };
+}
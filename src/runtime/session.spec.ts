@@ -0,0 +1,93 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LLMDriver } from './driver';
+import { ModelTurn, registerProvider } from './providers';
+import { SESSIONS_DIR, SessionRecorder, listSessions, readSession, summarizeSession, writtenFiles } from './session';
+
+describe('sessions', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-sessions-'));
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.remove(root);
+    });
+
+    const start = (goal: string) => ({
+        type: 'session_start' as const, session_id: goal, agent: 'dev', goal, provider: 'mock', model: 'm', cwd: root, isolation: 'none',
+    });
+
+    it('appends timestamped JSONL events', async () => {
+        const recorder = new SessionRecorder(root, '100');
+        await recorder.record(start('first'));
+        await recorder.record({ type: 'session_end', status: 'completed', output: 'ok', turns: 1 });
+
+        expect(recorder.filePath).toBe(path.join(root, SESSIONS_DIR, '100.jsonl'));
+        const events = await readSession(recorder.filePath);
+        expect(events.map(e => e.type)).toEqual(['session_start', 'session_end']);
+        expect(events.every(e => !isNaN(Date.parse(e.timestamp)))).toBe(true);
+    });
+
+    it('summarizes a run without session_end as running', async () => {
+        const recorder = new SessionRecorder(root, '100');
+        await recorder.record(start('unfinished'));
+        await recorder.record({ type: 'model_turn', turn: 1, text: '', tool_calls: [] });
+
+        const summary = summarizeSession('100', recorder.filePath, await readSession(recorder.filePath));
+        expect(summary).toMatchObject({ id: '100', agent: 'dev', goal: 'unfinished', status: 'running', turns: 1 });
+    });
+
+    it('lists sessions newest first and skips unreadable transcripts', async () => {
+        const older = new SessionRecorder(root, '100');
+        await older.record(start('older'));
+        await new Promise(r => setTimeout(r, 5));
+        const newer = new SessionRecorder(root, '200');
+        await newer.record(start('newer'));
+        await fs.writeFile(path.join(root, SESSIONS_DIR, '300.jsonl'), '{not json\n');
+
+        expect((await listSessions(root)).map(s => s.goal)).toEqual(['newer', 'older']);
+    });
+
+    it('records each model turn and tool result of a driver run', async () => {
+        await fs.writeFile(path.join(root, 'note.txt'), 'hello');
+        const turns: ModelTurn[] = [
+            { text: 'Reading.', toolCalls: [{ id: 't1', name: 'read_file', input: { path: 'note.txt' } }], done: false },
+            { text: 'Done.', toolCalls: [], done: true },
+        ];
+        registerProvider({ name: 'scripted-session-test', createSession: async () => ({ send: async () => turns.shift()! }) });
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+
+        const recorder = new SessionRecorder(root, '100');
+        await new LLMDriver({ provider: 'scripted-session-test', model: 'm', capabilities: ['read_files'] }, 'Read the note', root, '', recorder).run();
+
+        const events = await readSession(recorder.filePath);
+        expect(events.map(e => e.type)).toEqual(['model_turn', 'tool_result', 'model_turn']);
+        expect(events[1]).toMatchObject({ type: 'tool_result', turn: 1, id: 't1', name: 'read_file', is_error: false });
+        expect(JSON.parse((events[1] as any).content).content).toBe('hello');
+    });
+
+    it('collects files written by successful write_file and apply_patch calls', async () => {
+        const recorder = new SessionRecorder(root, '100');
+        const patch = '--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-a\n+b';
+        await recorder.record({
+            type: 'model_turn',
+            turn: 1,
+            text: '',
+            tool_calls: [
+                { id: 'w', name: 'write_file', input: { path: './docs/notes.md', content: 'x' } },
+                { id: 'p', name: 'apply_patch', input: { patch } },
+                { id: 'f', name: 'write_file', input: { path: 'failed.md', content: 'x' } },
+            ],
+        });
+        await recorder.record({ type: 'tool_result', turn: 1, id: 'w', name: 'write_file', content: '{}', is_error: false });
+        await recorder.record({ type: 'tool_result', turn: 1, id: 'p', name: 'apply_patch', content: '{}', is_error: false });
+        await recorder.record({ type: 'tool_result', turn: 1, id: 'f', name: 'write_file', content: 'denied', is_error: true });
+
+        expect(writtenFiles(await readSession(recorder.filePath))).toEqual(['docs/notes.md', 'src/a.ts']);
+    });
+});
@@ -0,0 +1,194 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ToolCall } from './providers/types';
+import { FileChange } from '../utils/git';
+import { ApprovalSource, PermissionDecision } from './policy';
+import { HookEvent } from './hooks';
+import { parseUnifiedDiff } from './builtins';
+
+export const SESSIONS_DIR = '.contextuate/sessions';
+
+export type SessionStatus = 'completed' | 'stopped' | 'error';
+
+/**
+ * What a worktree run changed, as committed at the end of the run.
+ */
+export interface ChangeSummary {
+    base: string;     // Commit the worktree started from
+    commit?: string;  // Unset when the agent changed nothing
+    files: FileChange[];
+    added: number;
+    removed: number;
+    patch?: string;   // Written with --export-patch
+    error?: string;   // The commit or patch export failed
+}
+
+/**
+ * One line of a session transcript. Every event carries an ISO timestamp.
+ */
+export type SessionEvent =
+    | {
+        type: 'session_start';
+        session_id: string;
+        agent: string;
+        goal: string;
+        provider: string;
+        model: string;
+        cwd: string;
+        isolation: string;
+        parent_session_id?: string; // Set when started by spawn_agent
+        branch?: string;            // Set for worktree runs
+    }
+    | { type: 'context'; files: { path: string; tokens: number; }[]; total_tokens: number; }
+    | { type: 'model_turn'; turn: number; text: string; tool_calls: ToolCall[]; }
+    | { type: 'tool_result'; turn: number; id: string; name: string; content: string; is_error: boolean; }
+    | { type: 'divergence'; turn: number; message: string; }
+    | {
+        type: 'permission';
+        turn: number;
+        id: string;                   // Tool call id
+        tool: string;
+        decision: PermissionDecision; // What the policy said
+        allowed: boolean;
+        by: ApprovalSource;
+        reason: string;
+    }
+    | {
+        type: 'hook';
+        event: HookEvent;
+        hook: string;
+        exit_code: number | null; // Null when the hook couldn't be started or was killed
+        timed_out?: boolean;
+        output: string;           // Combined stdout and stderr, truncated
+        tool?: string;            // Set for pre-tool and post-tool hooks
+    }
+    | {
+        type: 'spawn';
+        turn: number;
+        child_session_id: string;
+        agent: string;
+        goal: string;
+        status: SessionStatus;
+        branch?: string;
+    }
+    | ({ type: 'changes'; } & ChangeSummary)
+    | {
+        type: 'session_end';
+        status: SessionStatus;
+        output: string;
+        turns: number;
+        usage?: { input_tokens: number; output_tokens: number; };
+        limit?: string; // Which limit stopped the run, when status is 'stopped'
+        error?: string;
+    };
+
+export type RecordedEvent = SessionEvent & { timestamp: string };
+
+/**
+ * Appends events to `.contextuate/sessions/<id>.jsonl` as they happen, so a crashed
+ * run still leaves a readable transcript.
+ */
+export class SessionRecorder {
+    readonly sessionId: string;
+    readonly filePath: string;
+
+    constructor(projectRoot: string, sessionId: string) {
+        this.sessionId = sessionId;
+        this.filePath = path.join(projectRoot, SESSIONS_DIR, `${sessionId}.jsonl`);
+    }
+
+    async record(event: SessionEvent): Promise<void> {
+        await fs.ensureDir(path.dirname(this.filePath));
+        const line: RecordedEvent = { timestamp: new Date().toISOString(), ...event };
+        await fs.appendFile(this.filePath, JSON.stringify(line) + '\n');
+    }
+}
+
+export async function readSession(filePath: string): Promise<RecordedEvent[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return content
+        .split('\n')
+        .filter(l => l.trim())
+        .map(l => JSON.parse(l) as RecordedEvent);
+}
+
+/**
+ * Files the agent changed through write_file and apply_patch calls that succeeded,
+ * in the order first written. Changes made by shell commands aren't seen.
+ */
+export function writtenFiles(events: RecordedEvent[]): string[] {
+    const calls = new Map<string, ToolCall>();
+    const files: string[] = [];
+
+    for (const event of events) {
+        if (event.type === 'model_turn') {
+            event.tool_calls.forEach(call => calls.set(call.id, call));
+        } else if (event.type === 'tool_result' && !event.is_error) {
+            const call = calls.get(event.id);
+            if (call?.name === 'write_file' && typeof call.input?.path === 'string') {
+                files.push(call.input.path);
+            } else if (call?.name === 'apply_patch' && typeof call.input?.patch === 'string') {
+                try {
+                    parseUnifiedDiff(call.input.patch).forEach(f => files.push((f.newPath || f.oldPath)!));
+                } catch {
+                    // apply_patch rejects patches that don't parse, so this can't have applied
+                }
+            }
+        }
+    }
+    return [...new Set(files.filter(Boolean).map(f => path.normalize(f).split(path.sep).join('/')))];
+}
+
+export interface SessionSummary {
+    id: string;
+    path: string;
+    startedAt?: string;
+    agent?: string;
+    goal?: string;
+    status: SessionStatus | 'running';
+    turns: number;
+    parentId?: string;
+}
+
+export function summarizeSession(id: string, filePath: string, events: RecordedEvent[]): SessionSummary {
+    const start = events.find(e => e.type === 'session_start');
+    const end = events.find(e => e.type === 'session_end');
+
+    return {
+        id,
+        path: filePath,
+        startedAt: start?.timestamp,
+        agent: start?.type === 'session_start' ? start.agent : undefined,
+        goal: start?.type === 'session_start' ? start.goal : undefined,
+        parentId: start?.type === 'session_start' ? start.parent_session_id : undefined,
+        // No end event means the run is still going or was killed
+        status: end?.type === 'session_end' ? end.status : 'running',
+        turns: end?.type === 'session_end' ? end.turns : events.filter(e => e.type === 'model_turn').length,
+    };
+}
+
+/**
+ * Lists recorded sessions, newest first.
+ */
+export async function listSessions(projectRoot: string): Promise<SessionSummary[]> {
+    const dir = path.join(projectRoot, SESSIONS_DIR);
+    if (!await fs.pathExists(dir)) return [];
+
+    const files = (await fs.readdir(dir)).filter(f => f.endsWith('.jsonl'));
+    const summaries: SessionSummary[] = [];
+
+    for (const file of files) {
+        const filePath = path.join(dir, file);
+        try {
+            summaries.push(summarizeSession(file.replace(/\.jsonl$/, ''), filePath, await readSession(filePath)));
+        } catch {
+            // Skip transcripts that can't be parsed rather than failing the whole listing
+        }
+    }
+
+    return summaries.sort((a, b) => (b.startedAt || b.id).localeCompare(a.startedAt || a.id));
+}
+
+export function sessionPath(projectRoot: string, sessionId: string): string {
+    return path.join(projectRoot, SESSIONS_DIR, `${sessionId}.jsonl`);
+}
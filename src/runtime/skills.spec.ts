@@ -0,0 +1,61 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SKILLS_DIR, createLoadSkillTool, listSkills, renderSkillIndex } from './skills';
+
+describe('skills', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-skills-'));
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.remove(root);
+    });
+
+    const writeSkill = (dir: string, file: string, content: string) => fs.outputFile(path.join(root, SKILLS_DIR, dir, file), content);
+
+    it('lists skills by name, first folder winning a shared name', async () => {
+        await writeSkill('b-release', 'SKILL.md', '---\nname: release\ndescription: Cut a release\n---\nSteps');
+        await writeSkill('a-release', 'SKILL.md', '---\nname: release\ndescription: Older copy\n---\n');
+        await writeSkill('changelog', 'SKILL.md', 'No frontmatter');
+        await writeSkill('notes', 'README.md', 'Not a skill');
+
+        const skills = await listSkills(root);
+        expect(skills.map(s => [s.name, s.description])).toEqual([['changelog', ''], ['release', 'Older copy']]);
+        expect(renderSkillIndex(skills)).toContain('- **changelog**: (no description)\n- **release**: Older copy');
+    });
+
+    it('skips a SKILL.md with broken frontmatter and keeps the others', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        await writeSkill('broken', 'SKILL.md', '---\nname: [unclosed\n---\nSteps');
+        await writeSkill('release', 'SKILL.md', '---\ndescription: Cut a release\n---\nSteps');
+
+        expect((await listSkills(root)).map(s => s.name)).toEqual(['release']);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(`Skipping skill ${SKILLS_DIR}/broken/SKILL.md: invalid frontmatter`));
+    });
+
+    it('loads SKILL.md with its supporting files, or one of those files', async () => {
+        await writeSkill('release', 'SKILL.md', '---\ndescription: Cut a release\n---\n\nRun the checklist.\n');
+        await writeSkill('release', 'checklist.md', '- [ ] tag');
+        await writeSkill('release', 'scripts/bump.sh', 'echo bump');
+        const tool = createLoadSkillTool(await listSkills(root));
+
+        expect(await tool.run({ name: 'release' }, { cwd: root }))
+            .toEqual({ name: 'release', content: 'Run the checklist.', files: ['checklist.md', 'scripts/bump.sh'] });
+        expect(await tool.run({ name: 'release', file: 'checklist.md' }, { cwd: root }))
+            .toEqual({ name: 'release', file: 'checklist.md', content: '- [ ] tag' });
+    });
+
+    it('refuses unknown skills and files outside the skill folder', async () => {
+        await writeSkill('release', 'SKILL.md', 'Steps');
+        const tool = createLoadSkillTool(await listSkills(root));
+
+        await expect(tool.run({ name: 'deploy' }, { cwd: root })).rejects.toThrow("Unknown skill 'deploy'. Available: release");
+        await expect(tool.run({ name: 'release', file: '../../agents/x.md' }, { cwd: root })).rejects.toThrow('is outside the skill folder');
+        await expect(tool.run({ name: 'release', file: 'missing.md' }, { cwd: root })).rejects.toThrow("File not found in skill 'release': missing.md");
+    });
+});
@@ -0,0 +1,133 @@
+import fs from 'fs-extra';
+import path from 'path';
+import matter from 'gray-matter';
+import chalk from 'chalk';
+import { ExecutableTool, ToolError, resolveInside } from './builtins';
+
+export const SKILLS_DIR = 'docs/ai/skills';
+export const SKILL_FILE = 'SKILL.md';
+export const LOAD_SKILL_TOOL = 'load_skill';
+
+const MAX_SKILL_CHARS = 50000;
+const MAX_SKILL_FILES = 200;
+
+/**
+ * A folder in docs/ai/skills with a SKILL.md. Only the name and description go
+ * into the system prompt; the rest is loaded with load_skill.
+ */
+export interface SkillDefinition {
+    name: string;        // Frontmatter `name`, or the folder name
+    description: string;
+    dir: string;
+    path: string;        // The SKILL.md
+}
+
+/**
+ * Skills in docs/ai/skills, sorted by name. Folders without a SKILL.md are skipped,
+ * as are SKILL.md files whose frontmatter doesn't parse (with a warning). When two
+ * skills share a name the first folder (alphabetically) wins.
+ */
+export async function listSkills(projectRoot: string): Promise<SkillDefinition[]> {
+    const root = path.join(projectRoot, SKILLS_DIR);
+    if (!await fs.pathExists(root)) return [];
+
+    const skills: SkillDefinition[] = [];
+    for (const entry of (await fs.readdir(root, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+        const file = path.join(root, entry.name, SKILL_FILE);
+        if (!entry.isDirectory() || !await fs.pathExists(file)) continue;
+
+        let data: Record<string, any>;
+        try {
+            data = matter(await fs.readFile(file, 'utf-8')).data;
+        } catch (e: any) {
+            console.warn(chalk.yellow(`[WARN] Skipping skill ${path.relative(projectRoot, file)}: invalid frontmatter: ${e.message.split('\n')[0]}`));
+            continue;
+        }
+        const name = typeof data.name === 'string' && data.name ? data.name : entry.name;
+        if (skills.some(s => s.name === name)) continue;
+        skills.push({
+            name,
+            description: typeof data.description === 'string' ? data.description.trim() : '',
+            dir: path.join(root, entry.name),
+            path: file,
+        });
+    }
+    return skills.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The system prompt section listing the skills the model can load.
+ */
+export function renderSkillIndex(skills: SkillDefinition[]): string {
+    return [
+        `Load a skill with the \`${LOAD_SKILL_TOOL}\` tool when the task calls for it. Only load what you need.`,
+        '',
+        ...skills.map(s => `- **${s.name}**: ${s.description || '(no description)'}`),
+    ].join('\n');
+}
+
+async function supportingFiles(dir: string, rel = ''): Promise<string[]> {
+    const files: string[] = [];
+    const entries = (await fs.readdir(path.join(dir, rel), { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+        const child = rel ? `${rel}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+            files.push(...await supportingFiles(dir, child));
+        } else if (child !== SKILL_FILE) {
+            files.push(child);
+        }
+    }
+    return files;
+}
+
+async function readSkillFile(file: string, label: string): Promise<string> {
+    const content = await fs.readFile(file, 'utf-8');
+    if (content.includes('\u0000')) throw new ToolError(`'${label}' is a binary file.`);
+    return content.length > MAX_SKILL_CHARS
+        ? content.slice(0, MAX_SKILL_CHARS) + `\n... [truncated ${content.length - MAX_SKILL_CHARS} chars]`
+        : content;
+}
+
+/**
+ * load_skill: returns a skill's SKILL.md body and the list of its supporting files,
+ * or one supporting file when `file` is given. Reads from docs/ai/skills in the main
+ * checkout, whatever the runtime directory.
+ */
+export function createLoadSkillTool(skills: SkillDefinition[]): ExecutableTool {
+    return {
+        name: LOAD_SKILL_TOOL,
+        description: 'Load the full instructions of a skill listed in the system prompt, or one of its supporting files.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', enum: skills.map(s => s.name), description: 'Skill name' },
+                file: { type: 'string', description: 'A supporting file from the skill\'s `files` list (omit to load SKILL.md)' },
+            },
+            required: ['name'],
+        },
+        async run(input) {
+            const skill = skills.find(s => s.name === input.name);
+            if (!skill) {
+                throw new ToolError(`Unknown skill '${input.name}'. Available: ${skills.map(s => s.name).join(', ')}`);
+            }
+
+            if (input.file) {
+                const file = await resolveInside(skill.dir, input.file).catch(() => {
+                    throw new ToolError(`Path '${input.file}' is outside the skill folder.`);
+                });
+                if (!await fs.pathExists(file) || (await fs.stat(file)).isDirectory()) {
+                    throw new ToolError(`File not found in skill '${skill.name}': ${input.file}`);
+                }
+                return { name: skill.name, file: input.file, content: await readSkillFile(file, input.file) };
+            }
+
+            const files = await supportingFiles(skill.dir);
+            return {
+                name: skill.name,
+                content: matter(await readSkillFile(skill.path, SKILL_FILE)).content.trim(),
+                files: files.slice(0, MAX_SKILL_FILES),
+                ...(files.length > MAX_SKILL_FILES ? { files_truncated: files.length - MAX_SKILL_FILES } : {}),
+            };
+        },
+    };
+}
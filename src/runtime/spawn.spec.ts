@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { SpawnRequest, SpawnResult, findOverlaps, runDispatch, runPool } from './spawn';
+
+describe('runPool', () => {
+    it('keeps input order and never exceeds the concurrency', async () => {
+        let running = 0;
+        let peak = 0;
+        const results = await runPool([30, 10, 20, 5], 2, async (ms, i) => {
+            peak = Math.max(peak, ++running);
+            await new Promise(r => setTimeout(r, ms));
+            running--;
+            return i;
+        });
+
+        expect(results).toEqual([0, 1, 2, 3]);
+        expect(peak).toBe(2);
+    });
+});
+
+describe('findOverlaps', () => {
+    it('lists files changed on more than one branch', () => {
+        expect(findOverlaps([
+            { agent: 'a', goal: 'x', status: 'completed', branch: 'agent/a/1', changed_files: ['src/x.ts', 'README.md'] },
+            { agent: 'b', goal: 'y', status: 'completed', branch: 'agent/b/2', changed_files: ['src/x.ts'] },
+            { agent: 'c', goal: 'z', status: 'error', changed_files: ['src/x.ts'] },
+        ])).toEqual([{ file: 'src/x.ts', branches: ['agent/a/1', 'agent/b/2'] }]);
+    });
+});
+
+describe('runDispatch', () => {
+    const child = (request: SpawnRequest, files: string[]): SpawnResult => ({
+        session_id: request.goal,
+        agent: request.agent_name,
+        status: 'completed',
+        summary: `Did ${request.goal}`,
+        turns: 1,
+        branch: `agent/${request.agent_name}/${request.goal}`,
+        changed_files: files,
+        usage: { input_tokens: 0, output_tokens: 0 },
+    });
+
+    it('runs every task in a worktree and reports failures and overlaps', async () => {
+        const requests: SpawnRequest[] = [];
+        const result = await runDispatch(
+            { tasks: [{ agent_name: 'dev', goal: 'one' }, { agent_name: 'dev', goal: 'two' }, { agent_name: 'qa', goal: 'three' }] },
+            3,
+            async request => {
+                requests.push(request);
+                if (request.agent_name === 'qa') throw new Error('boom');
+                return child(request, ['shared.ts']);
+            }
+        );
+
+        expect(requests.every(r => r.isolation === 'worktree')).toBe(true);
+        expect(result.results.map(r => [r.goal, r.status])).toEqual([['one', 'completed'], ['two', 'completed'], ['three', 'error']]);
+        expect(result.results[2].error).toBe('boom');
+        expect(result.overlaps).toEqual([{ file: 'shared.ts', branches: ['agent/dev/one', 'agent/dev/two'] }]);
+        expect(result.summary).toBe('2 completed, 1 error; 1 file(s) changed on more than one branch');
+    });
+
+    it('rejects an empty or malformed task list', async () => {
+        const spawn = async (request: SpawnRequest) => child(request, []);
+        await expect(runDispatch({ tasks: [] }, 3, spawn)).rejects.toThrow('tasks must list at least one sub-agent.');
+        await expect(runDispatch({ tasks: [{ agent_name: 'dev' } as any] }, 3, spawn)).rejects.toThrow('tasks[0] needs "agent_name" and "goal" strings.');
+    });
+});
@@ -0,0 +1,201 @@
+import { ExecutableTool, ToolError } from './builtins';
+import { RunLimits } from './driver';
+
+export const SPAWN_CAPABILITY = 'spawn_agent';
+export const DISPATCH_CAPABILITY = 'dispatch';
+
+// Sub-agents dispatch runs at once unless limits.max_concurrency says otherwise
+export const DEFAULT_CONCURRENCY = 3;
+
+// Guards against agents spawning each other without end
+export const MAX_SPAWN_DEPTH = 3;
+
+export interface SpawnRequest {
+    agent_name: string;
+    goal: string;
+    isolation?: 'worktree' | 'none';
+}
+
+/**
+ * What the parent model sees as the spawn_agent tool result.
+ */
+export interface SpawnResult {
+    session_id: string;
+    agent: string;
+    status: 'completed' | 'stopped' | 'error';
+    summary: string;        // The child's final message
+    turns: number;
+    branch?: string;        // Set for worktree runs
+    worktree?: string;
+    changed_files?: string[]; // Worktree runs: files that differ from the commit it started from
+    commit?: string;          // Worktree runs: the commit holding the child's changes
+    limit?: string;
+    error?: string;
+    usage: { input_tokens: number; output_tokens: number; };
+}
+
+/**
+ * Runs a child agent. `budget` is what remains of the parent's limits, and `signal`
+ * aborts when the parent stops.
+ */
+export type AgentSpawner = (request: SpawnRequest, budget: RunLimits, signal?: AbortSignal) => Promise<SpawnResult>;
+
+/**
+ * The spawn_agent tool. The driver supplies `spawn`, which knows the parent's session
+ * and remaining budget.
+ */
+export function createSpawnTool(spawn: (request: SpawnRequest) => Promise<SpawnResult>): ExecutableTool {
+    return {
+        name: SPAWN_CAPABILITY,
+        description: 'Launch a sub-agent to work on a goal, by default in its own git worktree and branch. ' +
+            'Returns the sub-agent\'s final summary, status and branch name once it finishes.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                agent_name: { type: 'string', description: 'Name of the agent to spawn (from docs/ai/agents).' },
+                goal: { type: 'string', description: 'Specific instructions for what the agent should achieve.' },
+                isolation: { type: 'string', enum: ['worktree', 'none'], description: 'Defaults to "worktree".' },
+            },
+            required: ['agent_name', 'goal'],
+        },
+        run: input => spawn(input as SpawnRequest),
+    };
+}
+
+export interface DispatchRequest {
+    tasks: { agent_name: string; goal: string; }[];
+    concurrency?: number;
+}
+
+export interface DispatchChildResult extends Partial<SpawnResult> {
+    agent: string;
+    goal: string;
+    status: SpawnResult['status'];
+}
+
+/**
+ * A file changed on more than one branch; merging those branches will conflict
+ * (or at least needs a careful look).
+ */
+export interface FileOverlap {
+    file: string;
+    branches: string[];
+}
+
+export interface DispatchResult {
+    summary: string;
+    results: DispatchChildResult[];
+    overlaps: FileOverlap[];
+}
+
+/**
+ * Runs `items` through `worker` with at most `concurrency` in flight. Results keep
+ * the input order.
+ */
+export async function runPool<T, R>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const lane = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, lane));
+    return results;
+}
+
+/**
+ * Files touched by more than one child, with the branches that touched them.
+ */
+export function findOverlaps(results: DispatchChildResult[]): FileOverlap[] {
+    const touched = new Map<string, string[]>();
+    for (const result of results) {
+        if (!result.branch) continue;
+        for (const file of result.changed_files || []) {
+            touched.set(file, [...(touched.get(file) || []), result.branch]);
+        }
+    }
+    return [...touched.entries()]
+        .filter(([, branches]) => branches.length > 1)
+        .map(([file, branches]) => ({ file, branches }))
+        .sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Runs every task as a worktree-isolated sub-agent and reports per-child results and
+ * overlapping changes. A failing child doesn't stop the others. `spawn` gets the
+ * number of free slots as its `share`, so the parent can split its remaining budget
+ * between the children that will run at once.
+ */
+export async function runDispatch(
+    request: DispatchRequest,
+    maxConcurrency: number,
+    spawn: (request: SpawnRequest, share: number) => Promise<SpawnResult>
+): Promise<DispatchResult> {
+    if (request.tasks.length === 0) {
+        throw new ToolError('tasks must list at least one sub-agent.');
+    }
+    request.tasks.forEach((task, i) => {
+        if (typeof task?.agent_name !== 'string' || typeof task?.goal !== 'string') {
+            throw new ToolError(`tasks[${i}] needs "agent_name" and "goal" strings.`);
+        }
+    });
+
+    const concurrency = Math.min(request.concurrency || maxConcurrency, maxConcurrency);
+    const slots = Math.min(concurrency, request.tasks.length);
+    let running = 0;
+
+    const results = await runPool(request.tasks, concurrency, async (task): Promise<DispatchChildResult> => {
+        const share = Math.max(slots - running, 1);
+        running++;
+        try {
+            return { ...await spawn({ agent_name: task.agent_name, goal: task.goal, isolation: 'worktree' }, share), goal: task.goal };
+        } catch (e: any) {
+            return { agent: task.agent_name, goal: task.goal, status: 'error', error: e.message };
+        } finally {
+            running--;
+        }
+    });
+
+    const overlaps = findOverlaps(results);
+    const counts = results.reduce<Record<string, number>>((acc, r) => ({ ...acc, [r.status]: (acc[r.status] || 0) + 1 }), {});
+    const summary = Object.entries(counts).map(([status, n]) => `${n} ${status}`).join(', ') +
+        (overlaps.length > 0 ? `; ${overlaps.length} file(s) changed on more than one branch` : '');
+
+    return { summary, results, overlaps };
+}
+
+/**
+ * The dispatch tool: several sub-agents at once, each in its own worktree.
+ */
+export function createDispatchTool(dispatch: (request: DispatchRequest) => Promise<DispatchResult>): ExecutableTool {
+    return {
+        name: DISPATCH_CAPABILITY,
+        description: 'Launch several sub-agents in parallel, each in its own git worktree and branch. ' +
+            'Waits for all of them and returns each one\'s status, summary, branch and changed files, ' +
+            'plus files changed on more than one branch (likely merge conflicts).',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                tasks: {
+                    type: 'array',
+                    description: 'One entry per sub-agent.',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            agent_name: { type: 'string', description: 'Name of the agent to run.' },
+                            goal: { type: 'string', description: 'What this sub-agent should achieve.' },
+                        },
+                        required: ['agent_name', 'goal'],
+                    },
+                },
+                concurrency: { type: 'number', description: 'How many sub-agents to run at once (capped by the agent\'s limit).' },
+            },
+            required: ['tasks'],
+        },
+        run: input => dispatch(input as DispatchRequest),
+    };
+}
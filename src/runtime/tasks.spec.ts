@@ -0,0 +1,76 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { appendTaskLog, createTask, listTaskInputFiles, listTaskLogs } from './tasks';
+
+describe('listTaskLogs', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-tasks-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(dir);
+    });
+
+    const addLogs = (...names: string[]) => Promise.all(names.map(n => fs.outputFile(path.join(dir, 'logs', n), '')));
+
+    it('returns nothing without a logs folder', async () => {
+        expect(await listTaskLogs(dir)).toEqual([]);
+    });
+
+    it('sorts by number, so 10 comes after 9', async () => {
+        await addLogs('10-2024-06-10-wrap-up.md', '2-2024-06-02-setup.md', '9-2024-06-09-review.md');
+        expect((await listTaskLogs(dir)).map(l => l.number)).toEqual([2, 9, 10]);
+    });
+
+    it('reads the date from the file name when there is one', async () => {
+        await addLogs('1-2024-06-01-start.md', '2-notes.md');
+        expect(await listTaskLogs(dir)).toEqual([
+            { number: 1, date: '2024-06-01', file: 'logs/1-2024-06-01-start.md' },
+            { number: 2, date: undefined, file: 'logs/2-notes.md' },
+        ]);
+    });
+
+    it('puts unnumbered files last, by name, and skips non-markdown files', async () => {
+        await addLogs('b-notes.md', '3-x.md', 'a-notes.md', 'draft.txt');
+        expect((await listTaskLogs(dir)).map(l => l.file)).toEqual(['logs/3-x.md', 'logs/a-notes.md', 'logs/b-notes.md']);
+    });
+
+    it('orders logs with the same number by name', async () => {
+        await addLogs('4-b.md', '4-a.md');
+        expect((await listTaskLogs(dir)).map(l => l.file)).toEqual(['logs/4-a.md', 'logs/4-b.md']);
+    });
+});
+
+describe('task run support', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-tasks-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(root);
+    });
+
+    it('lists the files/ folder recursively', async () => {
+        const dir = await createTask(root, 'login');
+        await fs.outputFile(path.join(dir, 'files/spec.md'), '');
+        await fs.outputFile(path.join(dir, 'files/designs/a.png'), '');
+
+        expect(await listTaskInputFiles(dir)).toEqual(['files/designs/a.png', 'files/spec.md']);
+    });
+
+    it('adds Files Changed and Notes sections to a session log', async () => {
+        const dir = await createTask(root, 'login');
+        const file = await appendTaskLog(dir, { summary: 'Agent session', files: ['src/login.ts'], notes: 'Left the tests for later.\n' });
+
+        const log = await fs.readFile(file, 'utf-8');
+        expect(path.basename(file)).toMatch(/^02-\d{4}-\d{2}-\d{2}-agent-session\.md$/);
+        expect(log).toContain('## Files Changed\n\n- src/login.ts\n');
+        expect(log).toMatch(/## Notes\n\nLeft the tests for later\.\n$/);
+    });
+});
@@ -0,0 +1,362 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+export const TASKS_DIR = 'docs/ai/tasks';
+export const ARCHIVE_DIR = 'docs/ai/tasks/.archive';
+export const SCOPE_FILE = '00-project-scope.md';
+
+export interface TaskPhase {
+    number: number;
+    file: string;       // Relative to the task folder
+    title: string;
+    status?: string;
+}
+
+export interface TaskLog {
+    number: number;
+    date?: string;      // YYYY-MM-DD from the file name
+    file: string;       // Relative to the task folder
+}
+
+/**
+ * What `task status` reports for one task, read from its scope, phase and log files.
+ */
+export interface TaskSummary {
+    name: string;
+    dir: string;
+    title: string;
+    status?: string;
+    updated?: string;
+    phases: TaskPhase[];
+    logs: TaskLog[];          // Oldest first
+    openItems: { file: string; text: string; }[];
+    archived: boolean;
+}
+
+export interface LogEntry {
+    summary: string;
+    platform?: string;
+    session?: string;         // Defaults to the log number
+    completed?: string[];
+    files?: string[];         // Adds a Files Changed section
+    decisions?: string[];
+    blockers?: string[];
+    next?: string[];
+    notes?: string;           // Adds a Notes section, e.g. the agent's final message
+}
+
+export class TaskError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TaskError';
+    }
+}
+
+export function today(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Task and log names use lowercase words joined by hyphens.
+ */
+export function slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+}
+
+function titleFromSlug(slug: string): string {
+    return slug.split('-').filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1)).join(' ');
+}
+
+export function taskDir(projectRoot: string, name: string): string {
+    return path.join(projectRoot, TASKS_DIR, name);
+}
+
+/**
+ * Returns a task's folder, throwing TaskError when it has no scope file.
+ */
+export async function requireTask(projectRoot: string, name: string): Promise<string> {
+    const dir = taskDir(projectRoot, name);
+    if (!name || name.split(/[\\/]/).includes('..') || !await fs.pathExists(path.join(dir, SCOPE_FILE))) {
+        throw new TaskError(`Task not found: ${name} (no ${path.join(TASKS_DIR, name || '', SCOPE_FILE)})`);
+    }
+    return dir;
+}
+
+/**
+ * Log files in numeric order, so `10-...` comes after `9-...`. Files without a
+ * leading number sort last, by name.
+ */
+export async function listTaskLogs(dir: string): Promise<TaskLog[]> {
+    const logsDir = path.join(dir, 'logs');
+    if (!await fs.pathExists(logsDir)) return [];
+
+    return (await fs.readdir(logsDir))
+        .filter(f => f.endsWith('.md'))
+        .map(f => {
+            const match = f.match(/^(\d+)-(?:(\d{4}-\d{2}-\d{2})-)?/);
+            return { number: match ? parseInt(match[1], 10) : Infinity, date: match?.[2], file: `logs/${f}` };
+        })
+        .sort((a, b) => a.number - b.number || a.file.localeCompare(b.file));
+}
+
+/**
+ * Everything under the task's `files/` folder, sorted, relative to the task folder.
+ */
+export async function listTaskInputFiles(dir: string, rel = 'files'): Promise<string[]> {
+    const abs = path.join(dir, rel);
+    if (!await fs.pathExists(abs)) return [];
+
+    const files: string[] = [];
+    for (const entry of (await fs.readdir(abs, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+        const child = `${rel}/${entry.name}`;
+        if (entry.isDirectory()) {
+            files.push(...await listTaskInputFiles(dir, child));
+        } else {
+            files.push(child);
+        }
+    }
+    return files;
+}
+
+/**
+ * Phase files (`01-analysis.md`, `02-design.md`, ...) in numeric order.
+ */
+export async function listTaskPhases(dir: string): Promise<TaskPhase[]> {
+    const phases: TaskPhase[] = [];
+    for (const file of await fs.readdir(dir)) {
+        const match = file.match(/^(\d+)-(.+)\.md$/);
+        if (!match || file === SCOPE_FILE || parseInt(match[1], 10) === 0) continue;
+
+        const content = await fs.readFile(path.join(dir, file), 'utf-8');
+        phases.push({
+            number: parseInt(match[1], 10),
+            file,
+            title: content.match(/^#\s+(?:Phase\s+\d+:\s*)?(.+)$/m)?.[1].trim() || titleFromSlug(match[2]),
+            status: readField(content, 'Status'),
+        });
+    }
+    return phases.sort((a, b) => a.number - b.number || a.file.localeCompare(b.file));
+}
+
+/**
+ * Reads a `> **Field:** value` line, ignoring unfilled `{placeholders}`.
+ */
+function readField(content: string, field: string): string | undefined {
+    const value = content.match(new RegExp(`^>[ \\t]*\\*\\*${field}:\\*\\*[ \\t]*(.*)$`, 'm'))?.[1].trim();
+    return value && !/^\{.*\}$/.test(value) ? value : undefined;
+}
+
+function setField(content: string, field: string, value: string): string {
+    const pattern = new RegExp(`^(>[ \\t]*\\*\\*${field}:\\*\\*).*$`, 'm');
+    return pattern.test(content) ? content.replace(pattern, `$1 ${value}`) : content;
+}
+
+/**
+ * Unchecked `- [ ]` items, skipping template placeholders such as `{Requirement 1}`.
+ */
+function openItems(content: string): string[] {
+    return [...content.matchAll(/^\s*[-*]\s+\[ \]\s+(.+)$/gm)]
+        .map(m => m[1].trim())
+        .filter(text => !/^\{.*\}$/.test(text));
+}
+
+export async function summarizeTask(dir: string, archived = false): Promise<TaskSummary> {
+    const scope = await fs.readFile(path.join(dir, SCOPE_FILE), 'utf-8');
+    const phases = await listTaskPhases(dir);
+
+    const items: TaskSummary['openItems'] = openItems(scope).map(text => ({ file: SCOPE_FILE, text }));
+    for (const phase of phases) {
+        const content = await fs.readFile(path.join(dir, phase.file), 'utf-8');
+        items.push(...openItems(content).map(text => ({ file: phase.file, text })));
+    }
+
+    return {
+        name: path.basename(dir),
+        dir,
+        title: scope.match(/^#\s+(.+)$/m)?.[1].trim() || titleFromSlug(path.basename(dir)),
+        status: readField(scope, 'Status'),
+        updated: readField(scope, 'Updated'),
+        phases,
+        logs: await listTaskLogs(dir),
+        openItems: items,
+        archived,
+    };
+}
+
+/**
+ * Every task, sorted by name. Archived tasks are included when asked for.
+ */
+export async function listTasks(projectRoot: string, includeArchived = false): Promise<TaskSummary[]> {
+    const roots: [string, boolean][] = [[path.join(projectRoot, TASKS_DIR), false]];
+    if (includeArchived) roots.push([path.join(projectRoot, ARCHIVE_DIR), true]);
+
+    const tasks: TaskSummary[] = [];
+    for (const [root, archived] of roots) {
+        if (!await fs.pathExists(root)) continue;
+        for (const entry of (await fs.readdir(root, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name))) {
+            if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+            if (!await fs.pathExists(path.join(root, entry.name, SCOPE_FILE))) continue;
+            tasks.push(await summarizeTask(path.join(root, entry.name), archived));
+        }
+    }
+    return tasks;
+}
+
+function scopeTemplate(title: string, objective: string | undefined, phases: string[], date: string): string {
+    const phaseRows = phases.length > 0
+        ? phases.map((p, i) => `| ${i + 1}     | ${p} | Pending |`)
+        : ['| 1     | {Phase 1 name} | {Pending/Active/Complete} |'];
+
+    return `# ${title}
+
+> **Status:** Planning
+> **Created:** ${date}
+> **Updated:** ${date}
+
+## Objective
+
+${objective || '{One paragraph describing what this task accomplishes}'}
+
+## Requirements
+
+- [ ] {Requirement 1}
+- [ ] {Requirement 2}
+
+## Success Criteria
+
+- {Measurable outcome 1}
+
+## Phases
+
+| Phase | Description | Status |
+| ----- | ----------- | ------ |
+${phaseRows.join('\n')}
+
+## Constraints
+
+- {Technical constraint}
+
+## Open Questions
+
+- [ ] {Question needing resolution}
+`;
+}
+
+function phaseTemplate(number: number, name: string): string {
+    return `# Phase ${number}: ${name}
+
+> **Status:** Pending
+> **Started:**
+> **Completed:**
+
+## Objectives
+
+- {Phase objective 1}
+
+## Approach
+
+{Description of how this phase will be executed}
+
+## Deliverables
+
+- [ ] {Deliverable 1}
+
+## Notes
+
+{Working notes, decisions made, issues encountered}
+
+## Outcome
+
+{Summary of what was accomplished - filled in when complete}
+`;
+}
+
+function logTemplate(entry: LogEntry, number: number, date: string): string {
+    const list = (items?: string[]) => items && items.length > 0 ? items.map(i => `- ${i}`).join('\n') : '- None';
+    return `# Log: ${entry.summary}
+
+> **Date:** ${date}
+> **Session:** ${entry.session || number}
+> **Platform:** ${entry.platform || 'Contextuate CLI'}
+
+## Work Completed
+
+${list(entry.completed)}
+${entry.files ? `\n## Files Changed\n\n${list(entry.files)}\n` : ''}
+## Decisions Made
+
+${list(entry.decisions)}
+
+## Blockers/Issues
+
+${list(entry.blockers)}
+
+## Next Steps
+
+${list(entry.next)}
+${entry.notes ? `\n## Notes\n\n${entry.notes.trim()}\n` : ''}`;
+}
+
+/**
+ * Scaffolds docs/ai/tasks/<name>/ with the scope file, phase files, `files/` and
+ * `logs/`, and records the first log entry. Returns the task folder.
+ */
+export async function createTask(projectRoot: string, name: string, options: { title?: string; objective?: string; phases?: string[] } = {}): Promise<string> {
+    const slug = slugify(name);
+    if (!slug) throw new TaskError(`Invalid task name: ${name}`);
+
+    const dir = taskDir(projectRoot, slug);
+    if (await fs.pathExists(dir)) throw new TaskError(`Task already exists: ${path.join(TASKS_DIR, slug)}`);
+    if (await fs.pathExists(path.join(projectRoot, ARCHIVE_DIR, slug))) {
+        throw new TaskError(`An archived task is already named ${slug} (${path.join(ARCHIVE_DIR, slug)})`);
+    }
+
+    const date = today();
+    const phases = options.phases || [];
+    await fs.ensureDir(path.join(dir, 'files'));
+    await fs.ensureDir(path.join(dir, 'logs'));
+    await fs.writeFile(path.join(dir, SCOPE_FILE), scopeTemplate(options.title || titleFromSlug(slug), options.objective, phases, date));
+    for (const [i, phase] of phases.entries()) {
+        await fs.writeFile(path.join(dir, `${String(i + 1).padStart(2, '0')}-${slugify(phase) || 'phase'}.md`), phaseTemplate(i + 1, phase));
+    }
+    await appendTaskLog(dir, { summary: 'Task created', completed: [`Created the task scope${phases.length > 0 ? ` and ${phases.length} phase file(s)` : ''}`] });
+    return dir;
+}
+
+/**
+ * Writes the next `logs/{number}-{date}-{summary}.md` and bumps the scope's Updated
+ * date. Returns the log's path.
+ */
+export async function appendTaskLog(dir: string, entry: LogEntry): Promise<string> {
+    const logs = await listTaskLogs(dir);
+    const number = logs.filter(l => Number.isFinite(l.number)).reduce((max, l) => Math.max(max, l.number), 0) + 1;
+    const date = today();
+    const file = path.join(dir, 'logs', `${String(number).padStart(2, '0')}-${date}-${slugify(entry.summary) || 'log'}.md`);
+
+    await fs.ensureDir(path.dirname(file));
+    await fs.writeFile(file, logTemplate(entry, number, date));
+
+    const scopePath = path.join(dir, SCOPE_FILE);
+    await fs.writeFile(scopePath, setField(await fs.readFile(scopePath, 'utf-8'), 'Updated', date));
+    return file;
+}
+
+/**
+ * Marks a task Complete and, unless `keep` is set, moves it to docs/ai/tasks/.archive.
+ * Returns the task's final location.
+ */
+export async function closeTask(projectRoot: string, name: string, options: { keep?: boolean } = {}): Promise<string> {
+    const dir = await requireTask(projectRoot, name);
+    const target = path.join(projectRoot, ARCHIVE_DIR, path.basename(dir));
+    if (!options.keep && await fs.pathExists(target)) {
+        throw new TaskError(`The archive already has a task named ${path.basename(dir)}: ${path.join(ARCHIVE_DIR, path.basename(dir))}`);
+    }
+
+    const scopePath = path.join(dir, SCOPE_FILE);
+    const scope = await fs.readFile(scopePath, 'utf-8');
+    await fs.writeFile(scopePath, setField(setField(scope, 'Status', 'Complete'), 'Updated', today()));
+
+    if (options.keep) return dir;
+    await fs.move(dir, target);
+    return target;
+}
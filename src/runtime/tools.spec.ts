@@ -0,0 +1,112 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ToolLoader, renderCommandTemplate } from './tools';
+
+describe('renderCommandTemplate', () => {
+    it('shell-quotes input values', () => {
+        expect(renderCommandTemplate('grep {{pattern}} {{ file }}', { pattern: "it's $(rm -rf /)", file: 'a b.txt' }))
+            .toBe(`grep 'it'\\''s $(rm -rf /)' 'a b.txt'`);
+    });
+
+    it('renders missing values as empty strings and JSON-encodes objects', () => {
+        expect(renderCommandTemplate('run {{missing}} {{opts}}', { opts: { a: 1 } })).toBe(`run '' '{"a":1}'`);
+    });
+});
+
+describe('ToolLoader', () => {
+    let root: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-tools-'));
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.remove(root);
+    });
+
+    const writeTool = (dir: string, file: string, frontmatter: string, body = '') =>
+        fs.outputFile(path.join(root, dir, file), `---\n${frontmatter}\n---\n${body}\n`);
+
+    it('matches capabilities by file name or frontmatter name', async () => {
+        await writeTool('docs/ai/tools', 'spawn.tool.md', 'description: Spawn things', 'Spawn docs');
+        await writeTool('docs/ai/tools', 'misc.tool.md', 'name: run_tests', 'Test docs');
+
+        const tools = await new ToolLoader(root).loadTools(['spawn', 'run_tests', 'unknown']);
+        expect(tools.map(t => [t.name, t.content, t.implementation])).toEqual([
+            ['spawn', 'Spawn docs', undefined],
+            ['run_tests', 'Test docs', undefined],
+        ]);
+        expect(console.warn).toHaveBeenCalledWith('[WARN] No tool definition found for capability: unknown');
+    });
+
+    it('prefers project tools over framework tools', async () => {
+        await writeTool('docs/ai/.contextuate/tools', 'lint.tool.md', 'name: lint', 'Framework');
+        await writeTool('docs/ai/tools', 'lint.tool.md', 'name: lint', 'Project');
+
+        const [tool] = await new ToolLoader(root).loadTools(['lint']);
+        expect(tool.content).toBe('Project');
+    });
+
+    it('skips tool files whose frontmatter does not parse', async () => {
+        await writeTool('docs/ai/.contextuate/tools', 'broken.tool.md', 'name: [unclosed');
+        await writeTool('docs/ai/tools', 'broken.tool.md', 'description: "unterminated');
+        await writeTool('docs/ai/tools', 'lint.tool.md', 'name: lint', 'Lint docs');
+
+        const tools = await new ToolLoader(root).loadTools(['lint', 'broken']);
+        expect(tools.map(t => t.name)).toEqual(['lint']);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/^\[WARN\] Skipping tool file .*docs\/ai\/tools\/broken\.tool\.md: invalid frontmatter/));
+        expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/^\[WARN\] Skipping tool file .*\.contextuate\/tools\/broken\.tool\.md: invalid frontmatter/));
+        expect(console.warn).toHaveBeenCalledWith('[WARN] No tool definition found for capability: broken');
+    });
+
+    it('treats an invalid implementation as documentation only', async () => {
+        await writeTool('docs/ai/tools', 'bad.tool.md', 'implementation:\n  type: shell');
+
+        const loader = new ToolLoader(root);
+        const [tool] = await loader.loadTools(['bad']);
+        expect(tool.implementation).toBeUndefined();
+        expect(loader.toExecutable(tool)).toBeNull();
+    });
+
+    it('runs shell tools with quoted input', async () => {
+        await writeTool('docs/ai/tools', 'echo.tool.md', [
+            'implementation:',
+            '  type: shell',
+            '  command: "printf %s {{text}}"',
+            'input_schema:',
+            '  type: object',
+            '  properties:',
+            '    text: { type: string }',
+        ].join('\n'));
+
+        const loader = new ToolLoader(root);
+        const [tool] = await loader.loadTools(['echo']);
+        const executable = loader.toExecutable(tool)!;
+
+        expect(executable.inputSchema).toEqual({ type: 'object', properties: { text: { type: 'string' } } });
+        expect(await executable.run({ text: 'a; echo injected' }, { cwd: root })).toMatchObject({ exit_code: 0, stdout: 'a; echo injected' });
+    });
+
+    it('binds built-in tools under a project name', async () => {
+        await writeTool('docs/ai/tools', 'peek.tool.md', 'implementation:\n  type: builtin\n  tool: read_file');
+        await fs.writeFile(path.join(root, 'note.txt'), 'hi');
+
+        const loader = new ToolLoader(root);
+        const executable = loader.toExecutable((await loader.loadTools(['peek']))[0])!;
+        expect(executable.name).toBe('peek');
+        expect(await executable.run({ path: 'note.txt' }, { cwd: root })).toMatchObject({ content: 'hi' });
+    });
+
+    it('calls the named export of module tools', async () => {
+        await writeTool('docs/ai/tools', 'sum.tool.md', 'implementation:\n  type: module\n  module: tools/sum.js\n  export: sum');
+        await fs.outputFile(path.join(root, 'tools/sum.js'), 'exports.sum = ({ a, b }) => ({ total: a + b });');
+
+        const loader = new ToolLoader(root);
+        const executable = loader.toExecutable((await loader.loadTools(['sum']))[0])!;
+        expect(await executable.run({ a: 2, b: 3 }, { cwd: root })).toEqual({ total: 5 });
+    });
+});
@@ -1,61 +1,197 @@
 import fs from 'fs-extra';
 import path from 'path';
 import matter from 'gray-matter';
+import { BUILTIN_TOOLS, ExecutableTool, JSONSchema, ToolError, resolveInside, runShellCommand } from './builtins';
+
+/**
+ * How a *.tool.md file is executed, declared under `implementation:` in its frontmatter.
+ */
+export type ToolImplementation =
+    | { type: 'builtin'; tool: string; }
+    | { type: 'shell'; command: string; timeout?: number; }
+    | { type: 'module'; module: string; export?: string; };
 
 export interface ToolDefinition {
     name: string;
-    content: string; // The full markdown content to inject into context
+    content: string; // Markdown body (without frontmatter) to inject into context
     path: string;
+    description?: string;
+    inputSchema?: JSONSchema;
+    implementation?: ToolImplementation; // Missing for documentation-only tools
+}
+
+/**
+ * Quotes a value for safe interpolation into a POSIX shell command line.
+ */
+function shellQuote(value: unknown): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Replaces `{{name}}` placeholders with shell-quoted input values. Missing values become ''.
+ */
+export function renderCommandTemplate(template: string, input: Record<string, any>): string {
+    return template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_m, key) =>
+        input[key] === undefined || input[key] === null ? `''` : shellQuote(input[key])
+    );
 }
 
 export class ToolLoader {
-    private toolsDir: string;
+    private projectRoot: string;
+    private toolDirs: string[];
 
     constructor(projectRoot: string) {
-        this.toolsDir = path.join(projectRoot, 'docs/ai/.contextuate/tools');
+        this.projectRoot = projectRoot;
+        // Project tools take precedence over the framework's
+        this.toolDirs = [
+            path.join(projectRoot, 'docs/ai/tools'),
+            path.join(projectRoot, 'docs/ai/.contextuate/tools'),
+        ];
     }
 
-    async loadTools(capabilities: string[]): Promise<ToolDefinition[]> {
+    /**
+     * Loads the tool docs for `capabilities`. Pass `quiet` when the same set was already
+     * loaded (and warned about) earlier in the run.
+     */
+    async loadTools(capabilities: string[], quiet = false): Promise<ToolDefinition[]> {
         const loadedTools: ToolDefinition[] = [];
 
-        // 1. Check if tools dir exists
-        if (!await fs.pathExists(this.toolsDir)) {
-            console.warn(`[WARN] Tools directory not found at: ${this.toolsDir}`);
-            return [];
+        // 1. Check if any tools dir exists
+        const dirs = [];
+        for (const dir of this.toolDirs) {
+            if (await fs.pathExists(dir)) dirs.push(dir);
         }
 
-        // 2. Map capabilities to files
-        // Convention: capability "spawn_agent" -> "spawn.tool.md" or "spawn_agent.tool.md"
-        // We'll search for matches.
+        if (dirs.length === 0) {
+            if (capabilities.length > 0 && !quiet) {
+                console.warn(`[WARN] Tools directory not found at: ${this.toolDirs[this.toolDirs.length - 1]}`);
+            }
+            return [];
+        }
 
-        const files = await fs.readdir(this.toolsDir);
+        // 2. Parse every tool file once so capabilities can match on frontmatter names too.
+        // A file that doesn't parse is skipped so it can't take the other tools down with it
+        const candidates: { file: string; toolPath: string; data: Record<string, any>; body: string }[] = [];
+        for (const dir of dirs) {
+            const files = (await fs.readdir(dir)).filter(f => f.endsWith('.md')).sort();
+            for (const file of files) {
+                const toolPath = path.join(dir, file);
+                try {
+                    const parsed = matter(await fs.readFile(toolPath, 'utf-8'));
+                    candidates.push({ file, toolPath, data: parsed.data || {}, body: parsed.content });
+                } catch (e: any) {
+                    if (!quiet) console.warn(`[WARN] Skipping tool file ${toolPath}: invalid frontmatter: ${e.message.split('\n')[0]}`);
+                }
+            }
+        }
 
+        // 3. Map capabilities to files
+        // Convention: capability "spawn_agent" -> "spawn.tool.md" or "spawn_agent.tool.md",
+        // or any tool file whose frontmatter declares name: "spawn_agent"
         for (const cap of capabilities) {
-            // rigorous matching: 
-            // 1. Exact match: cap + ".tool.md"
-            // 2. Name match: file starts with cap + "."
-            // 3. Simple fuzzy?
-
-            const match = files.find(f =>
-                f === `${cap}.tool.md` ||
-                f === `${cap.replace(/_/g, '-')}.tool.md` ||
-                f.startsWith(`${cap}.`)
+            const match = candidates.find(c =>
+                c.data.name === cap ||
+                c.file === `${cap}.tool.md` ||
+                c.file === `${cap.replace(/_/g, '-')}.tool.md` ||
+                c.file.startsWith(`${cap}.`)
             );
 
             if (match) {
-                const toolPath = path.join(this.toolsDir, match);
-                const content = await fs.readFile(toolPath, 'utf-8');
-
-                loadedTools.push({
-                    name: cap,
-                    path: toolPath,
-                    content: content
-                });
-            } else {
+                loadedTools.push(this.toDefinition(cap, match.toolPath, match.data, match.body));
+            } else if (!quiet) {
                 console.warn(`[WARN] No tool definition found for capability: ${cap}`);
             }
         }
 
         return loadedTools;
     }
+
+    private toDefinition(cap: string, toolPath: string, data: Record<string, any>, body: string): ToolDefinition {
+        const definition: ToolDefinition = {
+            name: typeof data.name === 'string' ? data.name : cap,
+            path: toolPath,
+            content: body.trim(),
+            description: data.description,
+        };
+
+        if (data.implementation) {
+            const impl = data.implementation;
+            const valid =
+                (impl.type === 'builtin' && typeof impl.tool === 'string') ||
+                (impl.type === 'shell' && typeof impl.command === 'string') ||
+                (impl.type === 'module' && typeof impl.module === 'string');
+
+            if (valid) {
+                definition.implementation = impl as ToolImplementation;
+                definition.inputSchema = data.input_schema || { type: 'object', properties: {} };
+            } else {
+                console.warn(`[WARN] Ignoring invalid implementation in ${toolPath} (treated as documentation only)`);
+            }
+        }
+
+        return definition;
+    }
+
+    /**
+     * Turns a tool definition with an implementation binding into something the driver can call.
+     * Returns null for documentation-only tools.
+     */
+    toExecutable(definition: ToolDefinition): ExecutableTool | null {
+        const impl = definition.implementation;
+        if (!impl) return null;
+
+        const base = {
+            name: definition.name,
+            description: definition.description || `Project tool defined in ${path.relative(this.projectRoot, definition.path)}`,
+            inputSchema: definition.inputSchema || { type: 'object', properties: {} },
+        };
+
+        if (impl.type === 'builtin') {
+            const builtin = BUILTIN_TOOLS.find(t => t.name === impl.tool);
+            if (!builtin) {
+                console.warn(`[WARN] Tool ${definition.name} binds unknown built-in '${impl.tool}'`);
+                return null;
+            }
+            return {
+                ...base,
+                inputSchema: definition.inputSchema && definition.inputSchema.properties && Object.keys(definition.inputSchema.properties).length > 0
+                    ? definition.inputSchema
+                    : builtin.inputSchema,
+                run: (input, ctx) => builtin.run(input, ctx),
+            };
+        }
+
+        if (impl.type === 'shell') {
+            return {
+                ...base,
+                run: async (input, ctx) => runShellCommand(
+                    renderCommandTemplate(impl.command, input),
+                    ctx.cwd,
+                    (impl.timeout || 60) * 1000,
+                    ctx.signal
+                ),
+            };
+        }
+
+        const projectRoot = this.projectRoot;
+        return {
+            ...base,
+            run: async (input, ctx) => {
+                const modulePath = await resolveInside(projectRoot, impl.module);
+                let loaded: any;
+                try {
+                    loaded = require(modulePath);
+                } catch (e: any) {
+                    throw new ToolError(`Failed to load tool module '${impl.module}': ${e.message}`);
+                }
+
+                const fn = impl.export ? loaded?.[impl.export] : (loaded?.default || loaded);
+                if (typeof fn !== 'function') {
+                    throw new ToolError(`Tool module '${impl.module}' does not export a function${impl.export ? ` named '${impl.export}'` : ''}.`);
+                }
+                return fn(input, ctx);
+            },
+        };
+    }
 }
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { formatDuration, parseDuration } from './duration';
+
+describe('parseDuration', () => {
+    it('reads numbers and bare numeric strings as seconds', () => {
+        expect(parseDuration(90)).toBe(90000);
+        expect(parseDuration('1.5')).toBe(1500);
+    });
+
+    it('reads ms, s, m and h units', () => {
+        expect(parseDuration('500ms')).toBe(500);
+        expect(parseDuration('30s')).toBe(30000);
+        expect(parseDuration('10 m')).toBe(600000);
+        expect(parseDuration('1H')).toBe(3600000);
+    });
+
+    it('rejects zero, negative and malformed values', () => {
+        expect(() => parseDuration(0)).toThrow('Invalid duration: 0');
+        expect(() => parseDuration('-5s')).toThrow(/Invalid duration/);
+        expect(() => parseDuration('soon')).toThrow('Invalid duration: "soon" (use e.g. 90, "30s", "10m", "1h")');
+    });
+});
+
+describe('formatDuration', () => {
+    it('picks a unit by size', () => {
+        expect(formatDuration(250)).toBe('250ms');
+        expect(formatDuration(12345)).toBe('12.3s');
+        expect(formatDuration(125000)).toBe('2m 5s');
+    });
+});
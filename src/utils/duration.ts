@@ -0,0 +1,29 @@
+/**
+ * Parses a duration into milliseconds.
+ * Accepts a number of seconds (e.g. 90) or a string with a unit: "500ms", "30s", "10m", "1h".
+ * A bare numeric string is treated as seconds.
+ */
+export function parseDuration(value: string | number): number {
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value) || value <= 0) throw new Error(`Invalid duration: ${value}`);
+        return value * 1000;
+    }
+
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/i);
+    if (!match) {
+        throw new Error(`Invalid duration: "${value}" (use e.g. 90, "30s", "10m", "1h")`);
+    }
+
+    const amount = parseFloat(match[1]);
+    const unit = (match[2] || 's').toLowerCase();
+    const factor = unit === 'ms' ? 1 : unit === 's' ? 1000 : unit === 'm' ? 60000 : 3600000;
+
+    if (amount <= 0) throw new Error(`Invalid duration: "${value}"`);
+    return Math.round(amount * factor);
+}
+
+export function formatDuration(ms: number): string {
+    if (ms < 1000) return `${ms}ms`;
+    if (ms < 60000) return `${Math.round(ms / 100) / 10}s`;
+    return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
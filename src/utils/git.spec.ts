@@ -0,0 +1,140 @@
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import fs from 'fs-extra';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GitManager, InvalidRefError, NotAGitRepositoryError, WORKTREES_DIR } from './git';
+
+describe('GitManager', () => {
+    let root: string;
+    let git: GitManager;
+
+    const run = (args: string[], cwd = root) => execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+
+    beforeEach(async () => {
+        root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-git-')));
+        run(['init', '-q', '-b', 'main']);
+        run(['config', 'user.email', 'test@example.com']);
+        run(['config', 'user.name', 'Test']);
+        await fs.writeFile(path.join(root, 'README.md'), 'hello\n');
+        run(['add', '.']);
+        run(['commit', '-q', '-m', 'initial']);
+        git = new GitManager(root);
+    });
+
+    afterEach(async () => {
+        await fs.remove(root);
+    });
+
+    it('creates agent worktrees and lists them apart from the main checkout', async () => {
+        const worktree = await git.createWorktree('dev', '100');
+
+        expect(worktree).toBe(path.join(root, WORKTREES_DIR, 'dev-100'));
+        expect((await git.listWorktrees()).map(w => w.branch)).toEqual(['main', 'agent/dev/100']);
+        expect(await git.listAgentWorktrees()).toEqual([
+            expect.objectContaining({ path: worktree, branch: 'agent/dev/100', stale: false }),
+        ]);
+    });
+
+    it('reports commits ahead, the branch diff and working tree status', async () => {
+        const worktree = await git.createWorktree('dev', '100');
+        await fs.writeFile(path.join(worktree, 'notes.md'), 'notes\n');
+        await git.commitChanges(worktree, 'Add notes');
+        await fs.appendFile(path.join(worktree, 'README.md'), 'more\n');
+
+        expect(await git.commitsAhead('main', 'agent/dev/100')).toBe(1);
+        expect(await git.diffBranch('main', 'agent/dev/100', true)).toContain('notes.md');
+        expect(await git.status(worktree)).toEqual([{ index: ' ', worktree: 'M', path: 'README.md' }]);
+    });
+
+    it('merges a branch and reports conflicts', async () => {
+        const worktree = await git.createWorktree('dev', '100');
+        await fs.writeFile(path.join(worktree, 'README.md'), 'from agent\n');
+        await git.commitChanges(worktree, 'Agent edit');
+
+        await fs.writeFile(path.join(root, 'README.md'), 'from main\n');
+        await git.commitChanges(root, 'Main edit');
+
+        const result = await git.mergeBranch('agent/dev/100', { message: 'Merge agent' });
+        expect(result).toMatchObject({ merged: false, conflicts: ['README.md'] });
+    });
+
+    it('squash-merges a branch into one commit', async () => {
+        const worktree = await git.createWorktree('dev', '100');
+        await fs.writeFile(path.join(worktree, 'a.md'), 'a\n');
+        await git.commitChanges(worktree, 'First');
+        await fs.writeFile(path.join(worktree, 'b.md'), 'b\n');
+        await git.commitChanges(worktree, 'Second');
+
+        expect(await git.mergeBranch('agent/dev/100', { squash: true, message: 'Squashed agent work' })).toMatchObject({ merged: true });
+        expect(run(['log', '-1', '--format=%s'])).toBe('Squashed agent work');
+        expect(run(['rev-list', '--count', 'HEAD'])).toBe('2');
+    });
+
+    it('removes a worktree with its branch and prunes stale entries', async () => {
+        const kept = await git.createWorktree('dev', '100');
+        const gone = await git.createWorktree('dev', '200');
+        await fs.remove(gone);
+
+        expect(await git.pruneWorktrees()).toEqual([gone]);
+        await git.removeWorktree(kept, true);
+
+        expect(await git.listAgentWorktrees()).toEqual([]);
+        expect(run(['branch', '--list', 'agent/dev/100'])).toBe('');
+    });
+
+    it('commits messages with quotes, newlines and $() verbatim', async () => {
+        const message = 'Fix "quoted" `ticks` and $(touch pwned)\n\nBody line with \'single\' quotes';
+        await fs.writeFile(path.join(root, 'a.md'), 'a\n');
+
+        const commit = await git.commitChanges(root, message);
+        expect(commit).toBe(run(['rev-parse', 'HEAD']));
+        expect(run(['log', '-1', '--format=%B'])).toBe(message);
+        expect(await fs.pathExists(path.join(root, 'pwned'))).toBe(false);
+        expect(await git.commitChanges(root, 'Nothing')).toBeUndefined();
+    });
+
+    it('summarizes and exports the commits after a base', async () => {
+        const base = await git.getHeadCommit();
+        await fs.writeFile(path.join(root, 'README.md'), 'hello\nworld\n');
+        await fs.writeFile(path.join(root, 'image.bin'), Buffer.from([0, 1, 2, 0]));
+        await git.commitChanges(root, 'Add world');
+
+        expect(await git.diffNumstat(root, base)).toEqual([
+            { path: 'README.md', added: 1, removed: 0 },
+            { path: 'image.bin', added: 0, removed: 0, binary: true },
+        ]);
+        expect(await git.formatPatch(root, base)).toMatch(/^From [0-9a-f]{40} [\s\S]*Subject: \[PATCH\] Add world/);
+    });
+
+    it('passes names and merge messages to git verbatim', async () => {
+        const worktree = await git.createWorktree('dev', '100');
+        await fs.writeFile(path.join(worktree, 'it\'s "odd" $(x).md'), 'a\n');
+        const base = await git.getHeadCommit();
+        await git.commitChanges(worktree, 'Odd name');
+
+        expect(await git.changedFiles(worktree, base)).toEqual(['it\'s "odd" $(x).md']);
+
+        const message = 'Merge "dev" $(touch pwned) `id`';
+        expect(await git.mergeBranch('agent/dev/100', { message })).toMatchObject({ merged: true });
+        expect((await git.log({ maxCount: 1 }))[0]).toMatchObject({ subject: message, author: 'Test', email: 'test@example.com' });
+        expect(await fs.pathExists(path.join(root, 'pwned'))).toBe(false);
+    });
+
+    it('reports renames with their original path', async () => {
+        run(['mv', 'README.md', 'GUIDE.md']);
+        expect(await git.status()).toEqual([{ index: 'R', worktree: ' ', path: 'GUIDE.md', from: 'README.md' }]);
+    });
+
+    it('throws typed errors', async () => {
+        await expect(git.diff({ from: '--output=/tmp/x' })).rejects.toBeInstanceOf(InvalidRefError);
+        await expect(git.deleteBranch('-D')).rejects.toThrow("Invalid git ref '-D'");
+
+        const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'contextuate-nogit-'));
+        try {
+            await expect(new GitManager(outside).getHeadCommit()).rejects.toBeInstanceOf(NotAGitRepositoryError);
+        } finally {
+            await fs.remove(outside);
+        }
+    });
+});
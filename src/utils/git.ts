@@ -1,10 +1,127 @@
-import { exec } from 'child_process';
-import util from 'util';
+import { spawn } from 'child_process';
 import fs from 'fs-extra';
 import path from 'path';
 
-const execAsync = util.promisify(exec);
+// Where createWorktree puts agent worktrees, relative to the project root
+export const WORKTREES_DIR = '.contextuate/worktrees';
+export const AGENT_BRANCH_PREFIX = 'agent/';
 
+/**
+ * A git command exited non-zero. `args` is the argv it was run with (without "git").
+ */
+export class GitError extends Error {
+    readonly args: string[];
+    readonly exitCode: number | null;
+    readonly stderr: string;
+
+    constructor(message: string, args: string[] = [], exitCode: number | null = null, stderr: string = '') {
+        super(message);
+        this.name = 'GitError';
+        this.args = args;
+        this.exitCode = exitCode;
+        this.stderr = stderr;
+    }
+}
+
+/**
+ * The git executable couldn't be started.
+ */
+export class GitNotFoundError extends GitError {
+    constructor() {
+        super('git is not installed or not on PATH');
+        this.name = 'GitNotFoundError';
+    }
+}
+
+/**
+ * The directory is not inside a git working tree.
+ */
+export class NotAGitRepositoryError extends GitError {
+    constructor(cwd: string, args: string[], exitCode: number | null, stderr: string) {
+        super(`Not a git repository: ${cwd}`, args, exitCode, stderr);
+        this.name = 'NotAGitRepositoryError';
+    }
+}
+
+/**
+ * A branch or revision that git would read as an option, or that git rejects.
+ */
+export class InvalidRefError extends GitError {
+    constructor(ref: string, reason: string) {
+        super(`Invalid git ref '${ref}': ${reason}`);
+        this.name = 'InvalidRefError';
+    }
+}
+
+export interface WorktreeInfo {
+    path: string;
+    head?: string;
+    branch?: string;   // Short name, e.g. agent/docs-bot/1718000000000
+    stale: boolean;    // Directory is gone; `git worktree prune` will drop it
+}
+
+export interface FileChange {
+    path: string;
+    added: number;
+    removed: number;
+    binary?: boolean;
+}
+
+/**
+ * One entry of `git status`. `index` and `worktree` are the two porcelain status
+ * letters (e.g. "M", "A", "?" for untracked, " " for unchanged).
+ */
+export interface StatusEntry {
+    path: string;
+    index: string;
+    worktree: string;
+    from?: string;     // Original path of a rename or copy
+}
+
+export interface LogEntry {
+    hash: string;
+    author: string;
+    email: string;
+    date: string;      // ISO 8601
+    subject: string;
+}
+
+export interface DiffOptions {
+    from?: string;     // Defaults to comparing the working tree with the index
+    to?: string;       // Defaults to the working tree (or `from`'s merge base with `to` when `mergeBase` is set)
+    mergeBase?: boolean; // Diff `from...to`: only what `to` changed since it forked from `from`
+    paths?: string[];
+    stat?: boolean;
+}
+
+export interface LogOptions {
+    range?: string;    // e.g. "main..agent/docs-bot/1718000000000"; defaults to HEAD
+    maxCount?: number;
+    paths?: string[];
+}
+
+export interface MergeResult {
+    merged: boolean;
+    conflicts: string[];
+    output: string;
+}
+
+interface GitResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+}
+
+interface RunOptions {
+    cwd?: string;
+    input?: string;      // Written to stdin
+    allowFailure?: boolean; // Resolve with the exit code instead of throwing
+}
+
+/**
+ * Thin wrapper over the git CLI. Commands are spawned with an argv array, never
+ * through a shell, so names, paths and messages are passed to git verbatim.
+ */
 export class GitManager {
     private cwd: string;
 
@@ -12,9 +129,52 @@ export class GitManager {
         this.cwd = cwd;
     }
 
+    private run(args: string[], options: RunOptions = {}): Promise<GitResult> {
+        const cwd = options.cwd || this.cwd;
+
+        return new Promise((resolve, reject) => {
+            const child = spawn('git', args, { cwd, env: process.env });
+            const stdout: Buffer[] = [];
+            const stderr: Buffer[] = [];
+
+            child.stdout.on('data', d => stdout.push(d));
+            child.stderr.on('data', d => stderr.push(d));
+            child.on('error', (e: NodeJS.ErrnoException) => {
+                reject(e.code === 'ENOENT' ? new GitNotFoundError() : new GitError(e.message, args));
+            });
+            child.on('close', exitCode => {
+                const result = {
+                    stdout: Buffer.concat(stdout).toString('utf-8'),
+                    stderr: Buffer.concat(stderr).toString('utf-8'),
+                    exitCode,
+                };
+                if (exitCode === 0 || options.allowFailure) {
+                    resolve(result);
+                } else if (/not a git repository/i.test(result.stderr)) {
+                    reject(new NotAGitRepositoryError(cwd, args, exitCode, result.stderr));
+                } else {
+                    const detail = result.stderr.trim() || result.stdout.trim() || `exit code ${exitCode}`;
+                    reject(new GitError(`git ${args[0]} failed: ${detail}`, args, exitCode, result.stderr));
+                }
+            });
+
+            child.stdin.end(options.input);
+        });
+    }
+
+    /**
+     * Refuses revisions git would parse as options (e.g. "--output=...").
+     */
+    private assertRef(ref: string): string {
+        if (!ref || ref.startsWith('-')) {
+            throw new InvalidRefError(ref, 'must not be empty or start with "-"');
+        }
+        return ref;
+    }
+
     async isGitRepo(): Promise<boolean> {
         try {
-            await execAsync('git rev-parse --is-inside-work-tree', { cwd: this.cwd });
+            await this.run(['rev-parse', '--is-inside-work-tree']);
             return true;
         } catch {
             return false;
@@ -22,45 +182,264 @@ export class GitManager {
     }
 
     async getCurrentBranch(): Promise<string> {
-        const { stdout } = await execAsync('git rev-parse --abbrev-ref HEAD', { cwd: this.cwd });
+        const { stdout } = await this.run(['rev-parse', '--abbrev-ref', 'HEAD']);
+        return stdout.trim();
+    }
+
+    async getHeadCommit(): Promise<string> {
+        const { stdout } = await this.run(['rev-parse', 'HEAD']);
         return stdout.trim();
     }
 
+    /**
+     * Working tree status, including untracked files (ignored files excluded).
+     */
+    async status(worktreePath: string = this.cwd): Promise<StatusEntry[]> {
+        const { stdout } = await this.run(['status', '--porcelain=v1', '-z', '--untracked-files=all'], { cwd: worktreePath });
+        const fields = stdout.split('\0');
+        const entries: StatusEntry[] = [];
+
+        for (let i = 0; i < fields.length; i++) {
+            const field = fields[i];
+            if (field.length < 4) continue;
+            const entry: StatusEntry = { index: field[0], worktree: field[1], path: field.slice(3) };
+            // Renames and copies are followed by the original path
+            if (entry.index === 'R' || entry.index === 'C') {
+                entry.from = fields[++i];
+            }
+            entries.push(entry);
+        }
+        return entries;
+    }
+
+    /**
+     * Files changed in `worktreePath` relative to `baseCommit`: committed, staged,
+     * unstaged and untracked (ignored files excluded). Sorted, project-relative.
+     */
+    async changedFiles(worktreePath: string, baseCommit: string): Promise<string[]> {
+        const { stdout: tracked } = await this.run(['diff', '--name-only', '-z', this.assertRef(baseCommit), '--'], { cwd: worktreePath });
+        const { stdout: untracked } = await this.run(['ls-files', '--others', '--exclude-standard', '-z'], { cwd: worktreePath });
+        const files = new Set([...tracked.split('\0'), ...untracked.split('\0')].filter(Boolean));
+        return [...files].sort();
+    }
+
+    /**
+     * A unified diff (or diffstat). With no revisions, unstaged changes in the working tree.
+     */
+    async diff(options: DiffOptions = {}, worktreePath: string = this.cwd): Promise<string> {
+        const args = ['diff'];
+        if (options.stat) args.push('--stat');
+        if (options.from && options.mergeBase) {
+            args.push(`${this.assertRef(options.from)}...${this.assertRef(options.to || 'HEAD')}`);
+        } else {
+            if (options.from) args.push(this.assertRef(options.from));
+            if (options.to) args.push(this.assertRef(options.to));
+        }
+        args.push('--', ...(options.paths || []));
+
+        const { stdout } = await this.run(args, { cwd: worktreePath });
+        return stdout;
+    }
+
+    /**
+     * Lines added and removed per file between two commits.
+     */
+    async diffNumstat(worktreePath: string, from: string, to: string = 'HEAD'): Promise<FileChange[]> {
+        const { stdout } = await this.run(['diff', '--numstat', '-z', this.assertRef(from), this.assertRef(to), '--'], { cwd: worktreePath });
+        const fields = stdout.split('\0');
+        const changes: FileChange[] = [];
+
+        for (let i = 0; i < fields.length; i++) {
+            if (!fields[i]) continue;
+            const [added, removed, file] = fields[i].split('\t');
+            // Renames leave the path empty and follow with the old and new paths
+            const filePath = file || (i += 2, fields[i]);
+            // Binary files show "-" for both counts
+            changes.push(added === '-'
+                ? { path: filePath, added: 0, removed: 0, binary: true }
+                : { path: filePath, added: parseInt(added, 10), removed: parseInt(removed, 10) });
+        }
+        return changes;
+    }
+
+    /**
+     * What `branch` changed since it forked from `base` (committed changes only).
+     */
+    async diffBranch(base: string, branch: string, stat: boolean = false): Promise<string> {
+        return this.diff({ from: base, to: branch, mergeBase: true, stat });
+    }
+
+    /**
+     * Commits, newest first.
+     */
+    async log(options: LogOptions = {}, worktreePath: string = this.cwd): Promise<LogEntry[]> {
+        const args = ['log', '--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e'];
+        if (options.maxCount) args.push(`--max-count=${options.maxCount}`);
+        args.push(this.assertRef(options.range || 'HEAD'), '--', ...(options.paths || []));
+
+        const { stdout } = await this.run(args, { cwd: worktreePath });
+        return stdout.split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+            const [hash, author, email, date, subject] = record.split('\x1f');
+            return { hash, author, email, date, subject };
+        });
+    }
+
+    /**
+     * Number of commits on `branch` that are not on `base`.
+     */
+    async commitsAhead(base: string, branch: string): Promise<number> {
+        const { stdout } = await this.run(['rev-list', '--count', `${this.assertRef(base)}..${this.assertRef(branch)}`, '--']);
+        return parseInt(stdout.trim(), 10);
+    }
+
+    /**
+     * The commits after `from` as a mailbox patch, for `git am` (or `git apply`).
+     */
+    async formatPatch(worktreePath: string, from: string, to: string = 'HEAD'): Promise<string> {
+        const { stdout } = await this.run(['format-patch', '--stdout', `${this.assertRef(from)}..${this.assertRef(to)}`, '--'], { cwd: worktreePath });
+        return stdout;
+    }
+
+    /**
+     * Branch that createWorktree uses for an agent session.
+     */
+    worktreeBranch(agentName: string, sessionId: string): string {
+        return `${AGENT_BRANCH_PREFIX}${agentName}/${sessionId}`;
+    }
+
     async createWorktree(agentName: string, sessionId: string): Promise<string> {
         // Worktrees will be stored in .contextuate/worktrees/
-        const worktreeDir = path.join(this.cwd, '.contextuate/worktrees', `${agentName}-${sessionId}`);
-        const branchName = `agent/${agentName}/${sessionId}`;
+        const worktreeDir = path.join(this.cwd, WORKTREES_DIR, `${agentName}-${sessionId}`);
+        const branchName = this.worktreeBranch(agentName, sessionId);
+
+        const { exitCode } = await this.run(['check-ref-format', '--branch', branchName], { allowFailure: true });
+        if (exitCode !== 0) {
+            throw new InvalidRefError(branchName, `agent name '${agentName}' can't be used in a branch name`);
+        }
 
         // Ensure parent dir exists
         await fs.ensureDir(path.dirname(worktreeDir));
 
         // Create worktree with a new branch
-        // -b creates the branch
-        await execAsync(`git worktree add -b ${branchName} "${worktreeDir}"`, { cwd: this.cwd });
+        await this.run(['worktree', 'add', '-b', branchName, '--', worktreeDir]);
 
         return worktreeDir;
     }
 
+    /**
+     * All worktrees of the repository, main working tree first.
+     */
+    async listWorktrees(): Promise<WorktreeInfo[]> {
+        const { stdout } = await this.run(['worktree', 'list', '--porcelain', '-z']);
+        const worktrees: WorktreeInfo[] = [];
+        let current: WorktreeInfo | undefined;
+
+        // One NUL-terminated attribute per field, with an empty field between worktrees
+        for (const field of stdout.split('\0')) {
+            if (!field) {
+                current = undefined;
+                continue;
+            }
+            const space = field.indexOf(' ');
+            const key = space === -1 ? field : field.slice(0, space);
+            const value = space === -1 ? '' : field.slice(space + 1);
+
+            if (key === 'worktree') {
+                current = { path: value, stale: false };
+                worktrees.push(current);
+            } else if (current) {
+                if (key === 'HEAD') current.head = value;
+                if (key === 'branch') current.branch = value.replace(/^refs\/heads\//, '');
+                if (key === 'prunable') current.stale = true;
+            }
+        }
+        return worktrees;
+    }
+
+    /**
+     * Worktrees created for agent runs: on an agent/ branch or under .contextuate/worktrees.
+     */
+    async listAgentWorktrees(): Promise<WorktreeInfo[]> {
+        const root = path.resolve(this.cwd, WORKTREES_DIR) + path.sep;
+        return (await this.listWorktrees()).filter(w =>
+            w.branch?.startsWith(AGENT_BRANCH_PREFIX) || path.resolve(w.path).startsWith(root)
+        );
+    }
+
+    /**
+     * Drops worktree entries whose directories no longer exist. Returns the pruned paths.
+     */
+    async pruneWorktrees(): Promise<string[]> {
+        const stale = (await this.listWorktrees()).filter(w => w.stale).map(w => w.path);
+        await this.run(['worktree', 'prune']);
+        return stale;
+    }
+
+    /**
+     * Removes a worktree (even with uncommitted changes) and, if asked, the branch it
+     * had checked out. The branch is deleted even if it was never merged.
+     */
     async removeWorktree(worktreePath: string, deleteBranch: boolean = false): Promise<void> {
-        await execAsync(`git worktree remove "${worktreePath}" --force`, { cwd: this.cwd });
+        const resolved = path.resolve(worktreePath);
+        const worktree = (await this.listWorktrees()).find(w => path.resolve(w.path) === resolved);
 
-        if (deleteBranch) {
-            // Extract branch name from path? Or pass it in.
-            // For safety, maybe we don't auto-delete the branch by default so work is preserved.
+        if (worktree?.stale) {
+            await this.run(['worktree', 'prune']);
+        } else {
+            await this.run(['worktree', 'remove', '--force', '--', worktreePath]);
+        }
+
+        if (deleteBranch && worktree?.branch) {
+            await this.deleteBranch(worktree.branch, true);
         }
     }
 
-    async commitChanges(worktreePath: string, message: string): Promise<void> {
-        try {
-            await execAsync('git add .', { cwd: worktreePath });
-            // check if there are changes
-            await execAsync(`git commit -m "${message}"`, { cwd: worktreePath });
-        } catch (e: any) {
-            // If nothing to commit, that's fine
-            if (e.stdout && e.stdout.includes('nothing to commit')) {
-                return;
+    /**
+     * Deletes a local branch. Without `force`, git refuses if it isn't fully merged.
+     */
+    async deleteBranch(branch: string, force: boolean = false): Promise<void> {
+        await this.run(['branch', force ? '-D' : '-d', '--', this.assertRef(branch)]);
+    }
+
+    /**
+     * Merges `branch` into the current branch, as a merge commit or squashed into a
+     * single commit. On conflicts the merge is left in progress for the user to resolve.
+     */
+    async mergeBranch(branch: string, options: { squash?: boolean; message: string }): Promise<MergeResult> {
+        const args = options.squash
+            ? ['merge', '--squash', this.assertRef(branch)]
+            : ['merge', '--no-ff', '--no-edit', '-m', options.message, this.assertRef(branch)];
+        const merge = await this.run(args, { allowFailure: true });
+
+        if (merge.exitCode !== 0) {
+            const { stdout } = await this.run(['diff', '--name-only', '-z', '--diff-filter=U']);
+            const conflicts = stdout.split('\0').filter(Boolean);
+            if (conflicts.length === 0) {
+                throw new GitError(`git merge failed: ${merge.stderr.trim() || merge.stdout.trim()}`, args, merge.exitCode, merge.stderr);
             }
-            throw e;
+            return { merged: false, conflicts, output: merge.stdout + merge.stderr };
         }
+
+        if (options.squash) {
+            await this.run(['commit', '-q', '-F', '-'], { input: options.message });
+        }
+        return { merged: true, conflicts: [], output: merge.stdout };
+    }
+
+    /**
+     * Stages everything in the worktree and commits it. Returns the new commit, or
+     * undefined when there was nothing to commit.
+     */
+    async commitChanges(worktreePath: string, message: string): Promise<string | undefined> {
+        if ((await this.status(worktreePath)).length === 0) {
+            return undefined;
+        }
+
+        await this.run(['add', '-A'], { cwd: worktreePath });
+        // The message goes through stdin, so quotes, newlines and $() are kept as written
+        await this.run(['commit', '-q', '-F', '-'], { cwd: worktreePath, input: message });
+
+        const { stdout } = await this.run(['rev-parse', 'HEAD'], { cwd: worktreePath });
+        return stdout.trim();
     }
 }
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { globToRegExp, matchesAny } from './glob';
+
+describe('globToRegExp', () => {
+    const matches = (glob: string, file: string) => globToRegExp(glob).test(file);
+
+    it('matches * within one path segment', () => {
+        expect(matches('src/*.ts', 'src/index.ts')).toBe(true);
+        expect(matches('src/*.ts', 'src/runtime/driver.ts')).toBe(false);
+    });
+
+    it('matches ** across any number of segments', () => {
+        expect(matches('src/**/*.ts', 'src/index.ts')).toBe(true);
+        expect(matches('src/**/*.ts', 'src/runtime/providers/mock.ts')).toBe(true);
+        expect(matches('docs/**', 'docs/ai/agents/base.md')).toBe(true);
+        expect(matches('docs/**', 'src/docs/x.md')).toBe(false);
+    });
+
+    it('matches ? as a single character', () => {
+        expect(matches('v?.md', 'v1.md')).toBe(true);
+        expect(matches('v?.md', 'v10.md')).toBe(false);
+    });
+
+    it('expands {a,b} groups', () => {
+        expect(matches('src/*.{ts,js}', 'src/a.js')).toBe(true);
+        expect(matches('src/*.{ts,js}', 'src/a.md')).toBe(false);
+    });
+
+    it('matches a pattern without a slash at any depth', () => {
+        expect(matches('.env', '.env')).toBe(true);
+        expect(matches('.env', 'config/.env')).toBe(true);
+        expect(matches('*.lock', 'packages/app/yarn.lock')).toBe(true);
+    });
+
+    it('matches everything below a pattern ending in a slash', () => {
+        expect(matches('secrets/', 'secrets/prod/key.pem')).toBe(true);
+        expect(matches('secrets/', 'app/secrets.ts')).toBe(false);
+    });
+
+    it('ignores a leading ./ or / and escapes regex characters', () => {
+        expect(matches('./src/a.ts', 'src/a.ts')).toBe(true);
+        expect(matches('/src/a.ts', 'src/a.ts')).toBe(true);
+        expect(matches('a+b.(x)', 'a+b.(x)')).toBe(true);
+        expect(matches('a.ts', 'abts')).toBe(false);
+    });
+});
+
+describe('matchesAny', () => {
+    it('normalizes backslashes and a leading ./ in the path', () => {
+        expect(matchesAny('.\\src\\a.ts', ['src/*.ts'])).toBe(true);
+        expect(matchesAny('src/a.ts', ['docs/**', 'lib/**'])).toBe(false);
+    });
+});
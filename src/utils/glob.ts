@@ -0,0 +1,62 @@
+/**
+ * Minimal glob matching for project-relative paths (always with forward slashes).
+ *
+ * Supports `**` (any number of path segments), `*` (anything but `/`), `?` and `{a,b}`.
+ * A pattern ending in `/` matches everything below that directory, and a pattern
+ * without a `/` matches the file name at any depth (like .gitignore).
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.trim().replace(/\\/g, '/');
+
+    if (pattern.endsWith('/')) {
+        pattern += '**';
+    }
+    if (!pattern.includes('/')) {
+        pattern = '**/' + pattern;
+    }
+    pattern = pattern.replace(/^\.\//, '').replace(/^\//, '');
+
+    let regex = '';
+    let inGroup = false;
+
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i];
+
+        if (c === '*') {
+            if (pattern[i + 1] === '*') {
+                // "**/" matches zero or more directories; a trailing "**" matches everything below
+                if (pattern[i + 2] === '/') {
+                    regex += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    regex += '.*';
+                    i += 1;
+                }
+            } else {
+                regex += '[^/]*';
+            }
+        } else if (c === '?') {
+            regex += '[^/]';
+        } else if (c === '{') {
+            inGroup = true;
+            regex += '(?:';
+        } else if (c === '}' && inGroup) {
+            inGroup = false;
+            regex += ')';
+        } else if (c === ',' && inGroup) {
+            regex += '|';
+        } else {
+            regex += c.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp('^' + regex + '$');
+}
+
+/**
+ * True if the project-relative `filePath` matches any of the globs.
+ */
+export function matchesAny(filePath: string, globs: string[]): boolean {
+    const normalized = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+    return globs.some(g => globToRegExp(g).test(normalized));
+}
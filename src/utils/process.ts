@@ -0,0 +1,80 @@
+import { ChildProcess } from 'child_process';
+
+const KILL_GRACE_MS = 2000;
+const DRAIN_MS = 100; // Output still buffered when the process exits
+
+export interface ProcessResult {
+    exitCode: number | null;
+    timedOut: boolean;
+    aborted?: boolean;  // Stopped through the abort signal
+    error?: Error;      // The process couldn't be started
+}
+
+/**
+ * Signals a child spawned with `detached: true` and everything it started (its
+ * process group).
+ */
+export function killProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+    if (child.pid === undefined) return;
+    try {
+        process.kill(-child.pid, signal);
+    } catch {
+        // Already gone
+    }
+}
+
+/**
+ * SIGTERM to the process group, then SIGKILL for whatever is left after a grace period.
+ */
+export function terminateProcessGroup(child: ChildProcess): void {
+    killProcessGroup(child, 'SIGTERM');
+    setTimeout(() => killProcessGroup(child, 'SIGKILL'), KILL_GRACE_MS).unref();
+}
+
+/**
+ * Waits for a detached child to exit, for `timeoutMs` to pass or for `signal` to abort,
+ * whichever is first. On timeout or abort the whole process group is terminated.
+ * Settles on 'exit' rather than 'close', since background processes the child started
+ * can hold its pipes open.
+ */
+export function waitForExit(child: ChildProcess, timeoutMs: number, signal?: AbortSignal): Promise<ProcessResult> {
+    return new Promise((resolve) => {
+        let settled = false;
+        const settle = (result: ProcessResult) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            resolve(result);
+        };
+        const onAbort = () => {
+            terminateProcessGroup(child);
+            settle({ exitCode: null, timedOut: false, aborted: true });
+        };
+
+        const timer = setTimeout(() => {
+            terminateProcessGroup(child);
+            settle({ exitCode: null, timedOut: true });
+        }, timeoutMs);
+
+        child.on('error', error => settle({ exitCode: null, timedOut: false, error }));
+        child.on('exit', exitCode => {
+            // Let buffered output arrive, but don't wait on pipes held by grandchildren
+            const drain = setTimeout(() => {
+                child.stdout?.destroy();
+                child.stderr?.destroy();
+                settle({ exitCode, timedOut: false });
+            }, DRAIN_MS);
+            child.on('close', () => {
+                clearTimeout(drain);
+                settle({ exitCode, timedOut: false });
+            });
+        });
+
+        if (signal?.aborted) {
+            onAbort();
+        } else {
+            signal?.addEventListener('abort', onAbort, { once: true });
+        }
+    });
+}
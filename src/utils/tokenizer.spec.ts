@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_TOKENIZER, HEURISTIC_TOKENIZER, registerTokenizer, resolveTokenizer, tokenizerForModel } from './tokenizer';
+
+describe('tokenizerForModel', () => {
+    it('maps model families to their vocabularies', () => {
+        expect(tokenizerForModel('gpt-4o-mini')).toBe('o200k_base');
+        expect(tokenizerForModel('openai/gpt-4-turbo')).toBe('cl100k_base');
+    });
+
+    it('falls back to the default for other models', () => {
+        expect(tokenizerForModel('claude-sonnet-4')).toBe(DEFAULT_TOKENIZER);
+        expect(tokenizerForModel()).toBe(DEFAULT_TOKENIZER);
+    });
+});
+
+describe('resolveTokenizer', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('returns the named tokenizer', () => {
+        expect(resolveTokenizer({ tokenizer: HEURISTIC_TOKENIZER }).name).toBe(HEURISTIC_TOKENIZER);
+    });
+
+    it('falls back to the heuristic with a warning for an unknown name', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const tokenizer = resolveTokenizer({ tokenizer: 'no-such-vocabulary' });
+
+        expect(tokenizer.name).toBe(HEURISTIC_TOKENIZER);
+        expect(tokenizer.count('abcdefgh')).toBe(2);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining("Tokenizer 'no-such-vocabulary' is unavailable (unknown tokenizer"));
+    });
+
+    it('falls back to the heuristic when a tokenizer fails to load', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        registerTokenizer('broken', () => { throw new Error('vocabulary missing'); });
+
+        expect(resolveTokenizer({ tokenizer: 'broken' }).name).toBe(HEURISTIC_TOKENIZER);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('(vocabulary missing)'));
+    });
+
+    it('loads each tokenizer once', () => {
+        let loads = 0;
+        registerTokenizer('counted', () => ({ name: 'counted', count: () => ++loads }));
+
+        expect(resolveTokenizer({ tokenizer: 'counted' })).toBe(resolveTokenizer({ tokenizer: 'counted' }));
+        expect(loads).toBe(0);
+    });
+
+    it('counts with the bundled vocabulary for a model', () => {
+        const tokenizer = resolveTokenizer({ model: 'gpt-4o' });
+        expect(tokenizer.name).toBe('o200k_base');
+        expect(tokenizer.count('hello world')).toBe(2);
+    });
+});
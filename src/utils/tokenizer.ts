@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import chalk from 'chalk';
+import { Tiktoken } from 'js-tiktoken/lite';
+import { estimateTokens } from './tokens';
+
+export interface Tokenizer {
+    name: string;
+    count(text: string): number;
+}
+
+export type TokenizerFactory = () => Tokenizer;
+
+export const HEURISTIC_TOKENIZER = 'heuristic';
+
+// Claude, Llama, Mistral and other models without a bundled vocabulary are counted
+// with cl100k_base: not exact, but far closer than characters / 4 for code
+export const DEFAULT_TOKENIZER = 'cl100k_base';
+
+// Model name prefixes (lowercase, without an `org/` prefix) and their vocabularies
+const MODEL_TOKENIZERS: [RegExp, string][] = [
+    [/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/, 'o200k_base'],
+    [/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada)/, 'cl100k_base'],
+];
+
+const CACHE_FILE = '.contextuate/cache/token-counts.json';
+const MAX_CACHE_ENTRIES = 5000;
+const MIN_CACHED_LENGTH = 1024; // Hashing short strings costs as much as counting them
+
+/**
+ * Counts with a bundled BPE vocabulary from js-tiktoken. The vocabulary is loaded on
+ * first use, since each one is several megabytes.
+ */
+function bpeTokenizer(encoding: string): TokenizerFactory {
+    return () => {
+        const ranks = require(`js-tiktoken/ranks/${encoding}`);
+        const encoder = new Tiktoken(ranks.default || ranks);
+        // Special tokens such as <|endoftext|> in the text are counted as plain text
+        return { name: encoding, count: text => encoder.encode(text, [], []).length };
+    };
+}
+
+const registry = new Map<string, TokenizerFactory>([
+    ['o200k_base', bpeTokenizer('o200k_base')],
+    ['cl100k_base', bpeTokenizer('cl100k_base')],
+    [HEURISTIC_TOKENIZER, () => ({ name: HEURISTIC_TOKENIZER, count: estimateTokens })],
+]);
+const loaded = new Map<string, Tokenizer>();
+
+/**
+ * Adds a tokenizer that agents can select with `context.tokenizer`, or replaces one.
+ */
+export function registerTokenizer(name: string, factory: TokenizerFactory) {
+    registry.set(name, factory);
+    loaded.delete(name);
+}
+
+export function listTokenizers(): string[] {
+    return [...registry.keys()];
+}
+
+/**
+ * The tokenizer for a model: its family's vocabulary, or DEFAULT_TOKENIZER.
+ */
+export function tokenizerForModel(model?: string): string {
+    const name = (model || '').toLowerCase().split('/').pop()!;
+    return MODEL_TOKENIZERS.find(([pattern]) => pattern.test(name))?.[1] || DEFAULT_TOKENIZER;
+}
+
+/**
+ * Returns the named tokenizer (or the one for `model`), falling back to the chars/4
+ * heuristic with a warning when it is unknown or its vocabulary fails to load.
+ */
+export function resolveTokenizer(options: { tokenizer?: string; model?: string } = {}): Tokenizer {
+    const name = options.tokenizer || tokenizerForModel(options.model);
+    const cached = loaded.get(name);
+    if (cached) return cached;
+
+    let tokenizer: Tokenizer;
+    const factory = registry.get(name);
+    try {
+        if (!factory) throw new Error(`unknown tokenizer (available: ${listTokenizers().join(', ')})`);
+        tokenizer = factory();
+    } catch (e: any) {
+        console.warn(chalk.yellow(`[WARN] Tokenizer '${name}' is unavailable (${e.message}); estimating tokens as characters / 4.`));
+        tokenizer = registry.get(HEURISTIC_TOKENIZER)!();
+    }
+    loaded.set(name, tokenizer);
+    return tokenizer;
+}
+
+/**
+ * Counts tokens, remembering counts of large texts by content hash in
+ * .contextuate/cache/token-counts.json so unchanged files aren't re-tokenized.
+ */
+export class TokenCounter {
+    readonly tokenizer: Tokenizer;
+    private cacheFile?: string;
+    private entries = new Map<string, number>();
+    private dirty = false;
+
+    /**
+     * @param projectRoot Where the cache file lives; without one, counts are cached in memory only
+     */
+    constructor(tokenizer: Tokenizer, projectRoot?: string) {
+        this.tokenizer = tokenizer;
+        this.cacheFile = projectRoot ? path.join(projectRoot, CACHE_FILE) : undefined;
+    }
+
+    async load(): Promise<this> {
+        if (!this.cacheFile || !await fs.pathExists(this.cacheFile)) return this;
+        try {
+            const data = await fs.readJson(this.cacheFile);
+            this.entries = new Map(Object.entries(data.entries || {}));
+        } catch {
+            // A corrupt cache is rebuilt
+        }
+        return this;
+    }
+
+    count(text: string): number {
+        return this.tokenizer.count(text);
+    }
+
+    countCached(text: string): number {
+        if (text.length < MIN_CACHED_LENGTH) return this.tokenizer.count(text);
+
+        const key = `${this.tokenizer.name}:${crypto.createHash('sha256').update(text).digest('hex')}`;
+        const hit = this.entries.get(key);
+        if (hit !== undefined) return hit;
+
+        const tokens = this.tokenizer.count(text);
+        this.entries.set(key, tokens);
+        this.dirty = true;
+        return tokens;
+    }
+
+    /**
+     * Writes new counts back, keeping the most recent MAX_CACHE_ENTRIES. Failures are
+     * ignored, as the cache is only an optimization.
+     */
+    async save(): Promise<void> {
+        if (!this.cacheFile || !this.dirty) return;
+        const kept = [...this.entries].slice(-MAX_CACHE_ENTRIES);
+        try {
+            await fs.ensureDir(path.dirname(this.cacheFile));
+            await fs.writeJson(this.cacheFile, { entries: Object.fromEntries(kept) });
+            this.dirty = false;
+        } catch {
+            // Read-only checkout or similar
+        }
+    }
+}